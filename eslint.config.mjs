@@ -12,6 +12,7 @@ export default tseslint.config(
       parserOptions: {
         projectService: {
           allowDefaultProject: ['tests/*.ts'],
+          maximumDefaultProjectFileMatchCount_THIS_WILL_SLOW_DOWN_LINTING: 32,
         },
         tsconfigRootDir: import.meta.dirname,
       },
@@ -86,6 +86,38 @@ export default defineConfig({
       testIgnore: [/.*configuration\.spec\.ts/, /.*auto-track\.spec\.ts/],
     },
 
+    // Project for testing context auto-tracking
+    {
+      name: 'chromium-auto-track-contexts',
+      use: {
+        ...devices['Desktop Chrome'],
+        pageManOptions: {
+          closeTimeout: 5000,
+          logCleanup: false,
+          autoTrack: true,
+          autoTrackContexts: true,
+        } as PageManOptions,
+      },
+      testMatch: /.*auto-track-contexts\.spec\.ts/,
+    },
+
+    // Project for testing page auto-tracking inside contexts and popups
+    {
+      name: 'chromium-auto-track-pages',
+      use: {
+        ...devices['Desktop Chrome'],
+        pageManOptions: {
+          closeTimeout: 5000,
+          logCleanup: false,
+          autoTrack: true,
+          autoTrackContextPages: true,
+          autoTrackPopups: true,
+          autoTrackDefaultContext: true,
+        } as PageManOptions,
+      },
+      testMatch: /.*auto-track-pages\.spec\.ts/,
+    },
+
     {
       name: 'webkit',
       use: { ...devices['Desktop Safari'] },
@@ -0,0 +1,73 @@
+// Shared by the fixtures and the reporter, so that loading the reporter does
+// not load the fixtures module
+import type { LeakPolicy } from './page-manager.js';
+
+/** Name of the per-test cleanup report attachment */
+export const CLEANUP_REPORT_NAME = 'pageman-cleanup.json';
+
+/** How a page/context came to be tracked */
+export type TrackSource = 'auto' | 'manual';
+
+/** What happened when pageman closed a tracked page/context */
+export type CleanupOutcome = 'closed' | 'already-closed' | 'timeout' | 'error';
+
+/**
+ * Steps tried in order after `page.close()` timed out, until one works:
+ * - `close-without-beforeunload`: `page.close({ runBeforeUnload: false })`
+ * - `close-context`: close the page's context, along with its other pages
+ * - `close-target`: close the page's target over CDP (Chromium only)
+ */
+export type ForceCloseStep =
+  | 'close-without-beforeunload'
+  | 'close-context'
+  | 'close-target';
+
+/** One force-close step in the cleanup report */
+export interface ForceCloseAttempt {
+  step: ForceCloseStep;
+  /** `skipped` for `close-target` outside of Chromium */
+  outcome: 'closed' | 'timeout' | 'error' | 'skipped';
+  error?: string;
+}
+
+/** One tracked page/context in the cleanup report */
+export interface CleanupEntry {
+  type: 'page' | 'context';
+  /** Page URL when closing started (pages only) */
+  url?: string;
+  /** Name given to `extraPages.push()` (pages only) */
+  name?: string;
+  /** Tags given to `extraPages.push()` (pages only) */
+  tags?: string[];
+  /** URLs of the context's pages when closing started (contexts only) */
+  pageUrls?: string[];
+  /** `auto` when pageman tracked it itself, `manual` when pushed */
+  source: TrackSource;
+  /** Milliseconds from being tracked until closed */
+  lifetimeMs: number;
+  /** Milliseconds spent in close() */
+  closeDurationMs: number;
+  outcome: CleanupOutcome;
+  /** Error message for `timeout` and `error` outcomes */
+  error?: string;
+  /** Force-close steps tried after a `timeout` (pages only, see `forceClose`) */
+  forceClose?: ForceCloseAttempt[];
+}
+
+/** A page/context found open after teardown (see `leakPolicy`) */
+export interface LeakEntry {
+  type: 'page' | 'context';
+  /** Page URL (pages only) */
+  url?: string;
+  /** URLs of the context's pages (contexts only) */
+  pageUrls?: string[];
+}
+
+/** Content of the `pageman-cleanup.json` attachment */
+export interface CleanupReport {
+  titlePath: string[];
+  retry: number;
+  leakPolicy: LeakPolicy;
+  entries: CleanupEntry[];
+  leaks: LeakEntry[];
+}
@@ -6,13 +6,48 @@ export {
   getExtraContexts,
   extraPages,
   extraContexts,
+  getExtraBrowsers,
+  extraBrowsers,
+  getWorkerExtraPages,
+  getWorkerExtraContexts,
+  workerExtraPages,
+  workerExtraContexts,
 } from './page-manager.js';
+export { CLEANUP_REPORT_NAME } from './cleanup-report.js';
 
 export type {
   PageManOptions,
+  LogLevel,
+  LogSink,
+  PageManLogger,
+  PageManHook,
+  PageManHookDetails,
+  LeakPolicy,
+  BudgetPolicy,
+  DialogPolicy,
+  ScreenshotMode,
   ExtraPages,
   ExtraContexts,
+  ExtraBrowsers,
+  TrackOptions,
+  PageScope,
+  OpenPageOptions,
+  CreateContextOptions,
+  LaunchPersistentOptions,
+  KeepUserDataDir,
+  Persona,
+  PersonaSession,
 } from './page-manager.js';
 
+export type {
+  TrackSource,
+  CleanupOutcome,
+  ForceCloseStep,
+  ForceCloseAttempt,
+  CleanupEntry,
+  LeakEntry,
+  CleanupReport,
+} from './cleanup-report.js';
+
 // Re-export commonly used Playwright types for convenience
 export type { TestInfo, Page, Browser, BrowserContext } from '@playwright/test';
@@ -1,5 +1,31 @@
-import type { TestInfo, Page, BrowserContext } from '@playwright/test';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type {
+  TestInfo,
+  WorkerInfo,
+  Page,
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  BrowserType,
+  Dialog,
+  PlaywrightWorkerOptions,
+  VideoMode,
+  ViewportSize,
+} from '@playwright/test';
 import { test as base } from '@playwright/test';
+import { CLEANUP_REPORT_NAME } from './cleanup-report.js';
+import type {
+  CleanupEntry,
+  CleanupOutcome,
+  CleanupReport,
+  ForceCloseAttempt,
+  ForceCloseStep,
+  LeakEntry,
+  TrackSource,
+} from './cleanup-report.js';
 
 // ── Type augmentation ──────────────────────────────────────────────
 
@@ -7,10 +33,6 @@ declare module '@playwright/test' {
   interface PlaywrightTestOptions {
     pageManOptions?: PageManOptions;
   }
-
-  interface PlaywrightWorkerOptions {
-    pageManOptions?: PageManOptions;
-  }
 }
 
 // ── Public interfaces ──────────────────────────────────────────────
@@ -18,15 +40,204 @@ declare module '@playwright/test' {
 export interface PageManOptions {
   /** Max milliseconds to wait when closing each page/context (default: 5000) */
   closeTimeout?: number;
-  /** Whether to log cleanup actions to stdout (default: false) */
+  /** How many pages/contexts to close at once, newest first (default: Infinity) */
+  closeConcurrency?: number;
+  /** Whether to log cleanup actions, shorthand for `logLevel: 'info'` (default: false) */
   logCleanup?: boolean;
+  /** Where pageman logs go: built-in sinks and/or custom loggers (default: 'stdout') */
+  logger?: LogSink | PageManLogger | (LogSink | PageManLogger)[];
+  /** Minimum level to log (default: 'info' with logCleanup, else 'warn') */
+  logLevel?: LogLevel;
   /** Auto-track pages created via browser.newPage() (default: false) */
   autoTrack?: boolean;
+  /** Auto-track contexts created via browser.newContext() (default: false) */
+  autoTrackContexts?: boolean;
+  /** Auto-track pages opened inside tracked contexts (default: false) */
+  autoTrackContextPages?: boolean;
+  /** Auto-track popups opened by tracked pages (default: false) */
+  autoTrackPopups?: boolean;
+  /** Auto-track pages opened inside the default `context` fixture (default: false) */
+  autoTrackDefaultContext?: boolean;
+  /** What to do with pages/contexts left open after teardown (default: 'ignore') */
+  leakPolicy?: LeakPolicy;
+  /** Fail the test when a tracked page/context fails to close (default: false) */
+  strictCleanup?: boolean;
+  /** Attach a `pageman-cleanup.json` report to every test (default: true) */
+  cleanupReport?: boolean;
+  /** When to screenshot tracked pages before closing them at teardown (default: 'off') */
+  screenshot?: ScreenshotMode;
+  /** Also attach an HTML snapshot whenever a screenshot is taken (default: false) */
+  captureHtml?: boolean;
+  /** Called when a page/context starts being tracked */
+  onTrack?: PageManHook;
+  /** Called before pageman closes a tracked page/context that is still open */
+  beforeClose?: PageManHook;
+  /** Called after pageman closed (or failed to close) a tracked page/context */
+  afterClose?: PageManHook;
+  /** Called when closing a tracked page/context timed out or failed */
+  onCloseError?: PageManHook;
+  /** Named users for `extraContexts.as()` (default: none) */
+  personas?: Record<string, Persona>;
+  /** Max open tracked pages, see `budgetPolicy` (default: Infinity) */
+  maxPages?: number;
+  /** Max open tracked contexts, see `budgetPolicy` (default: Infinity) */
+  maxContexts?: number;
+  /** What to do when a new page/context crosses maxPages/maxContexts (default: 'warn') */
+  budgetPolicy?: BudgetPolicy;
+  /** Escalate when a page close times out, see `ForceCloseStep` (default: true) */
+  forceClose?: boolean;
+  /** How to answer dialogs while pageman closes tracked pages (default: 'dismiss') */
+  dialogPolicy?: DialogPolicy;
+  /** Auto-track browsers from the `playwright` fixture's launch()/connect() (default: false) */
+  autoTrackBrowsers?: boolean;
+  /** When to keep the user data dir of `extraContexts.launchPersistent()` (default: 'never') */
+  keepUserDataDir?: KeepUserDataDir;
+}
+
+/** A `storageState` file path, or the options for the persona's context */
+export type Persona = string | BrowserContextOptions;
+
+/** What `extraContexts.as()` returns */
+export interface PersonaSession {
+  context: BrowserContext;
+  page: Page;
+}
+
+/**
+ * Lifecycle hook for tracked pages and contexts. Hooks run under
+ * `closeTimeout`, and their errors are logged but never fail the test.
+ */
+export type PageManHook = (
+  resource: Page | BrowserContext,
+  testInfo: TestInfo,
+  details: PageManHookDetails
+) => void | Promise<void>;
+
+export interface PageManHookDetails {
+  type: 'page' | 'context';
+  source: TrackSource;
+  /** Name given to `extraPages.push()` (pages only) */
+  name?: string;
+  /** How closing went (`afterClose` and `onCloseError` only) */
+  outcome?: CleanupOutcome;
+  /** The close error (`onCloseError` only) */
+  error?: unknown;
+}
+
+/** Severity of a pageman log message; `silent` disables logging */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Built-in log sinks:
+ * - `stdout` / `stderr`: write `[pageman] ...` lines to the process stream
+ * - `attachment`: attach all lines of the test as `pageman-log.txt`
+ * - `annotation`: add a `pageman` annotation to the test per message
+ */
+export type LogSink = 'stdout' | 'stderr' | 'attachment' | 'annotation';
+
+/** Custom log destination; messages come without the `[pageman]` prefix */
+export interface PageManLogger {
+  debug(message: string): void;
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+/** Mirrors Playwright's own `screenshot` option */
+export type ScreenshotMode = 'off' | 'on' | 'only-on-failure';
+
+/**
+ * - `ignore`: do not look for leaks
+ * - `warn`: log every leaked page/context
+ * - `close`: close leaked pages/contexts
+ * - `fail`: close leaked pages/contexts, then fail the test
+ */
+export type LeakPolicy = 'ignore' | 'warn' | 'close' | 'fail';
+
+/**
+ * - `warn`: log the tracked URLs, once per test
+ * - `close-oldest`: close the oldest open pages/contexts to get back in budget
+ * - `fail`: throw, listing the tracked URLs; the new page/context stays tracked
+ */
+export type BudgetPolicy = 'warn' | 'close-oldest' | 'fail';
+
+/**
+ * - `dismiss`: dismiss dialogs, close without running `beforeunload` handlers
+ * - `accept`: accept dialogs, close running `beforeunload` handlers and
+ *   accepting their prompt
+ * - `leave`: leave dialogs to the test's own handlers
+ */
+export type DialogPolicy = 'dismiss' | 'accept' | 'leave';
+
+/** Labels for a pushed page, see `ExtraPages.push()` */
+export interface TrackOptions {
+  /** Unique among tracked pages; shown in logs and the cleanup report */
+  name?: string;
+  tags?: string[];
+}
+
+/** Options for `ExtraPages.open()` */
+export interface OpenPageOptions extends TrackOptions {
+  /** Open the page in this context instead of a new one */
+  context?: BrowserContext;
+  /** Browser for the new context when no `context` is given (default: the `browser` fixture) */
+  browser?: Browser;
+  /** Options for `page.goto()` */
+  goto?: Parameters<Page['goto']>[1];
+}
+
+/** Options for `ExtraContexts.launchPersistent()` */
+export type LaunchPersistentOptions = NonNullable<
+  Parameters<BrowserType['launchPersistentContext']>[1]
+>;
+
+/**
+ * When to keep the temporary user data dir of a persistent context:
+ * - `never`: delete it once the test's contexts are closed
+ * - `on-failure`: keep it when the test failed, to inspect the profile
+ */
+export type KeepUserDataDir = 'never' | 'on-failure';
+
+/** Options for `ExtraContexts.create()` */
+export interface CreateContextOptions extends BrowserContextOptions {
+  /** Browser to create the context in (default: the `browser` fixture) */
+  browser?: Browser;
+}
+
+/**
+ * Pages opened or pushed through `ExtraPages.scope()`. Disposing the scope
+ * closes them right away; they are cleaned up at teardown otherwise.
+ */
+export interface PageScope extends AsyncDisposable {
+  push(...pages: Page[]): void;
+  push(page: Page, options: TrackOptions): void;
+  open(url?: string, options?: OpenPageOptions): Promise<Page>;
+  /** Pages of the scope that are still tracked */
+  readonly pages: readonly Page[];
 }
 
 export interface ExtraPages {
   /** Push one or more pages to be auto-cleaned after the test */
   push(...pages: Page[]): void;
+  /**
+   * Push a page under a name and/or tags, to find it again with `get()` /
+   * `byTag()`. Throws if another tracked page already has the name.
+   */
+  push(page: Page, options: TrackOptions): void;
+  /** Get the tracked page with this name */
+  get(name: string): Page | undefined;
+  /** Get the tracked pages with this tag */
+  byTag(tag: string): Page[];
+  /** Names of the tracked pages, in tracking order */
+  readonly names: readonly string[];
+  /**
+   * Open a new page, track it and navigate it to `url` if given. Without a
+   * `context` the page gets its own context, closed along with it.
+   * Disposing the page (`await using`) closes it and stops tracking it.
+   */
+  open(url?: string, options?: OpenPageOptions): Promise<Page>;
+  /** Group pages to close together with `await using` */
+  scope(): PageScope;
   /** Number of tracked pages */
   readonly length: number;
   /** Remove a specific page from tracking (will NOT auto-close it) */
@@ -40,6 +251,25 @@ export interface ExtraPages {
 export interface ExtraContexts {
   /** Push one or more contexts to be auto-cleaned after the test */
   push(...contexts: BrowserContext[]): void;
+  /**
+   * Create a new context and track it. Disposing the context
+   * (`await using`) closes it and stops tracking it.
+   */
+  create(options?: CreateContextOptions): Promise<BrowserContext>;
+  /**
+   * Get a tracked context and page for a persona from the `personas` option.
+   * The context is reused by later calls for as long as it stays tracked.
+   */
+  as(persona: string): Promise<PersonaSession>;
+  /**
+   * Launch a persistent context in a new temporary user data dir and track
+   * it. The dir is deleted after the context is closed at teardown, see
+   * `keepUserDataDir`.
+   */
+  launchPersistent(
+    browserType: BrowserType,
+    options?: LaunchPersistentOptions
+  ): Promise<BrowserContext>;
   /** Number of tracked contexts */
   readonly length: number;
   /** Remove a specific context from tracking (will NOT auto-close it) */
@@ -50,364 +280,2602 @@ export interface ExtraContexts {
   readonly contexts: readonly BrowserContext[];
 }
 
+export interface ExtraBrowsers {
+  /** Push one or more browsers to be auto-closed after the test */
+  push(...browsers: Browser[]): void;
+  /** Number of tracked browsers */
+  readonly length: number;
+  /** Remove a specific browser from tracking (will NOT auto-close it) */
+  remove(browser: Browser): boolean;
+  /** Close all tracked browsers immediately */
+  closeAll(): Promise<void>;
+  /** Get all tracked browsers (readonly snapshot) */
+  readonly browsers: readonly Browser[];
+}
+
 // ── Default options ────────────────────────────────────────────────
 
 const defaultOptions: Required<PageManOptions> = {
   closeTimeout: 5000,
+  closeConcurrency: Infinity,
   logCleanup: false,
+  logger: 'stdout',
+  // Derived from logCleanup in resolveOptions() unless set explicitly
+  logLevel: 'warn',
   autoTrack: true,
+  autoTrackContexts: false,
+  autoTrackContextPages: false,
+  autoTrackPopups: false,
+  autoTrackDefaultContext: false,
+  leakPolicy: 'ignore',
+  strictCleanup: false,
+  cleanupReport: true,
+  screenshot: 'off',
+  captureHtml: false,
+  onTrack: () => {},
+  beforeClose: () => {},
+  afterClose: () => {},
+  onCloseError: () => {},
+  personas: {},
+  maxPages: Infinity,
+  maxContexts: Infinity,
+  budgetPolicy: 'warn',
+  forceClose: true,
+  dialogPolicy: 'dismiss',
+  autoTrackBrowsers: false,
+  keepUserDataDir: 'never',
 };
 
-function resolveOptions(testInfo: TestInfo): Required<PageManOptions> {
-  const userOptions = (testInfo.project.use as any).pageManOptions || {};
-  return { ...defaultOptions, ...userOptions };
+/**
+ * Merge options in precedence order: defaults, then project config, then the
+ * closest `test.use()` override (file or describe level).
+ */
+function resolveOptions(
+  info: TestInfo | WorkerInfo,
+  overrides: PageManOptions
+): Required<PageManOptions> {
+  const projectOptions: PageManOptions =
+    (info.project.use as any).pageManOptions || {};
+  const resolved = { ...defaultOptions, ...projectOptions, ...overrides };
+  resolved.logLevel =
+    overrides.logLevel ??
+    projectOptions.logLevel ??
+    (resolved.logCleanup ? 'info' : 'warn');
+  return resolved;
 }
 
-// ── Internal trackers ──────────────────────────────────────────────
+// ── Logging ────────────────────────────────────────────────────────
 
-class PageTracker {
-  private tracked: Page[] = [];
+const logLevels: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
 
-  constructor(private options: Required<PageManOptions>) {}
+const levelPrefixes: Record<Exclude<LogLevel, 'silent'>, string> = {
+  debug: '',
+  info: '',
+  warn: 'Warning: ',
+  error: 'Error: ',
+};
 
-  push(...pages: Page[]): void {
-    for (const page of pages) {
-      if (!this.tracked.includes(page)) {
-        this.tracked.push(page);
-      }
-    }
+/** Name of the log attachment written by the `attachment` sink */
+const LOG_ATTACHMENT_NAME = 'pageman-log.txt';
+
+/**
+ * Filters messages by `logLevel` and dispatches them to every sink. Without a
+ * TestInfo (worker scope), the attachment and annotation sinks use stdout.
+ */
+class Logger implements PageManLogger {
+  private sinks: (LogSink | PageManLogger)[];
+  private lines: string[] = [];
+
+  constructor(
+    private options: Required<PageManOptions>,
+    private testInfo?: TestInfo
+  ) {
+    this.sinks = Array.isArray(options.logger)
+      ? options.logger
+      : [options.logger];
   }
 
-  get length(): number {
-    return this.tracked.length;
+  debug(message: string): void {
+    this.log('debug', message);
   }
 
-  get pages(): readonly Page[] {
-    return [...this.tracked];
+  info(message: string): void {
+    this.log('info', message);
   }
 
-  remove(page: Page): boolean {
-    const index = this.tracked.indexOf(page);
-    if (index !== -1) {
-      this.tracked.splice(index, 1);
-      return true;
-    }
-    return false;
+  warn(message: string): void {
+    this.log('warn', message);
   }
 
-  async closeAll(): Promise<void> {
-    if (this.tracked.length === 0) return;
+  error(message: string): void {
+    this.log('error', message);
+  }
 
-    const count = this.tracked.length;
-    if (this.options.logCleanup) {
-      process.stdout.write(
-        `[pageman] Closing ${count} tracked page(s) in reverse order\n`
-      );
+  private log(level: Exclude<LogLevel, 'silent'>, message: string): void {
+    if (logLevels.indexOf(level) < logLevels.indexOf(this.options.logLevel)) {
+      return;
     }
 
-    // Close in reverse order (LIFO) — safer for parent/child pages
-    const reversed = [...this.tracked].reverse();
-
-    const closePromises = reversed.map(async page => {
-      try {
-        if (!page.isClosed()) {
-          await Promise.race([
-            page.close(),
-            new Promise<void>((_, reject) =>
-              setTimeout(
-                () => reject(new Error('Page close timeout')),
-                this.options.closeTimeout
-              )
-            ),
-          ]);
-        }
-      } catch (error: unknown) {
-        if (this.options.logCleanup) {
-          const message =
-            error instanceof Error ? error.message : String(error);
-          process.stdout.write(
-            `[pageman] Warning: failed to close page: ${message}\n`
-          );
+    const text = `${levelPrefixes[level]}${message}`;
+    for (const sink of this.sinks) {
+      if (
+        sink === 'stdout' ||
+        (!this.testInfo && (sink === 'attachment' || sink === 'annotation'))
+      ) {
+        process.stdout.write(`[pageman] ${text}\n`);
+      } else if (sink === 'stderr') {
+        process.stderr.write(`[pageman] ${text}\n`);
+      } else if (sink === 'attachment') {
+        this.lines.push(`[pageman] ${text}`);
+      } else if (sink === 'annotation') {
+        this.testInfo!.annotations.push({ type: 'pageman', description: text });
+      } else {
+        try {
+          sink[level](message);
+        } catch {
+          // A broken custom logger must never break cleanup
         }
-        // Never rethrow during cleanup
       }
+    }
+  }
+
+  /** Attach the lines collected by the `attachment` sink */
+  async flush(): Promise<void> {
+    if (!this.testInfo || this.lines.length === 0) return;
+    await this.testInfo.attach(LOG_ATTACHMENT_NAME, {
+      body: this.lines.join('\n') + '\n',
+      contentType: 'text/plain',
     });
+    this.lines = [];
+  }
+}
 
-    await Promise.allSettled(closePromises);
-    this.tracked = [];
+// ── Internal trackers ──────────────────────────────────────────────
 
-    if (this.options.logCleanup) {
-      process.stdout.write(
-        `[pageman] Successfully cleaned up ${count} page(s)\n`
-      );
-    }
+function describeContext(context: BrowserContext): string {
+  const urls = context.pages().map(page => page.url());
+  return urls.length > 0
+    ? `context with ${urls.length} page(s): ${urls.join(', ')}`
+    : 'context with no pages';
+}
+
+class CloseTimeoutError extends Error {}
+
+/** Race a close call against `closeTimeout` */
+async function closeWithTimeout(
+  close: () => Promise<void>,
+  timeout: number,
+  message: string
+): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      close(),
+      new Promise<void>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new CloseTimeoutError(message)),
+          timeout
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
   }
 }
 
-class ContextTracker {
-  private tracked: BrowserContext[] = [];
+interface CloseFailure {
+  resource: string;
+  error: unknown;
+}
 
-  constructor(private options: Required<PageManOptions>) {}
+/**
+ * Build the single error thrown by `closeAll()` under `strictCleanup`, once
+ * every close has been attempted.
+ */
+function strictCleanupError(
+  kind: 'page' | 'context' | 'browser',
+  failures: CloseFailure[]
+): AggregateError {
+  const lines = failures.map(({ resource, error }) => {
+    const message = error instanceof Error ? error.message : String(error);
+    return `  - ${resource}: ${message}`;
+  });
+  return new AggregateError(
+    failures.map(failure => failure.error),
+    `[pageman] Failed to close ${failures.length} ${kind}(s):\n` +
+      lines.join('\n')
+  );
+}
 
-  push(...contexts: BrowserContext[]): void {
-    for (const ctx of contexts) {
-      if (!this.tracked.includes(ctx)) {
-        this.tracked.push(ctx);
-      }
-    }
+/**
+ * Run `close` over `items` in order, `concurrency` at a time. Each batch
+ * settles before the next one starts.
+ */
+async function closeInBatches<T>(
+  items: T[],
+  concurrency: number,
+  close: (item: T) => Promise<void>
+): Promise<void> {
+  // NaN or a non-number would make every batch empty and close nothing
+  const valid = typeof concurrency === 'number' && !Number.isNaN(concurrency);
+  const size = valid
+    ? Math.max(1, Math.floor(concurrency))
+    : defaultOptions.closeConcurrency;
+  for (let i = 0; i < items.length; i += size) {
+    await Promise.allSettled(items.slice(i, i + size).map(close));
   }
+}
 
-  get length(): number {
-    return this.tracked.length;
+function describeCounts(pages: number, contexts: number, tracked = ''): string {
+  const parts: string[] = [];
+  if (pages > 0) parts.push(`${pages} ${tracked}page(s)`);
+  if (contexts > 0) parts.push(`${contexts} ${tracked}context(s)`);
+  return parts.join(' and ');
+}
+
+/** One tracked page/context on the cleanup stack */
+type StackEntry = {
+  /** Close through the owning tracker, collecting failures */
+  close: (failures: CloseFailure[]) => Promise<void>;
+} & (
+  | { type: 'page'; resource: Page }
+  | { type: 'context'; resource: BrowserContext }
+);
+
+/**
+ * Shared by the page and context trackers, so that teardown closes every
+ * tracked page and context in reverse tracking order, whichever of the
+ * extraPages / extraContexts fixtures is torn down first.
+ */
+class CleanupStack {
+  private entries: StackEntry[] = [];
+  private trackers: { stopWatching(): void }[] = [];
+  private evictions: Promise<void>[] = [];
+  private evictionFailures = {
+    page: [] as CloseFailure[],
+    context: [] as CloseFailure[],
+  };
+  private deferred: Error[] = [];
+
+  constructor(
+    private options: Required<PageManOptions>,
+    private logger: Logger
+  ) {}
+
+  /** Trackers stop following new pages/popups once teardown starts */
+  register(tracker: { stopWatching(): void }): void {
+    this.trackers.push(tracker);
   }
 
-  get contexts(): readonly BrowserContext[] {
-    return [...this.tracked];
+  push(entry: StackEntry): void {
+    this.entries.push(entry);
   }
 
-  remove(context: BrowserContext): boolean {
-    const index = this.tracked.indexOf(context);
-    if (index !== -1) {
-      this.tracked.splice(index, 1);
-      return true;
+  remove(resource: Page | BrowserContext): void {
+    this.entries = this.entries.filter(entry => entry.resource !== resource);
+  }
+
+  tracks(resource: Page | BrowserContext): boolean {
+    return this.entries.some(entry => entry.resource === resource);
+  }
+
+  /** Start closing a resource ahead of teardown, which waits for it */
+  evict(resource: Page | BrowserContext): void {
+    const entry = this.entries.find(entry => entry.resource === resource);
+    if (entry) {
+      this.evictions.push(entry.close(this.evictionFailures[entry.type]));
     }
-    return false;
+  }
+
+  /** Fail the test at teardown, for errors with no caller to throw to */
+  fail(error: Error): void {
+    this.deferred.push(error);
   }
 
   async closeAll(): Promise<void> {
-    if (this.tracked.length === 0) return;
+    await Promise.all(this.evictions.splice(0));
+    const failures = {
+      page: this.evictionFailures.page.splice(0),
+      context: this.evictionFailures.context.splice(0),
+    };
+    if (this.entries.length > 0) {
+      await this.closeEntries(failures);
+    }
 
-    const count = this.tracked.length;
-    if (this.options.logCleanup) {
-      process.stdout.write(
-        `[pageman] Closing ${count} tracked context(s) in reverse order\n`
+    const errors = this.deferred.splice(0);
+    if (this.options.strictCleanup) {
+      if (failures.page.length > 0) {
+        errors.push(strictCleanupError('page', failures.page));
+      }
+      if (failures.context.length > 0) {
+        errors.push(strictCleanupError('context', failures.context));
+      }
+    }
+    if (errors.length === 1) throw errors[0];
+    if (errors.length > 1) {
+      throw new AggregateError(
+        errors.flatMap(error =>
+          error instanceof AggregateError ? error.errors : [error]
+        ),
+        errors.map(error => error.message).join('\n')
       );
     }
+  }
 
-    // Close in reverse order (LIFO)
-    // Closing a context automatically closes all its pages
-    const reversed = [...this.tracked].reverse();
+  private async closeEntries(failures: {
+    page: CloseFailure[];
+    context: CloseFailure[];
+  }): Promise<void> {
+    for (const tracker of this.trackers) {
+      tracker.stopWatching();
+    }
+    const entries = [...this.entries].reverse();
+    const pageCount = entries.filter(entry => entry.type === 'page').length;
+    const contextCount = entries.length - pageCount;
+    this.logger.info(
+      `Closing ${describeCounts(pageCount, contextCount, 'tracked ')} in reverse order`
+    );
 
-    const closePromises = reversed.map(async ctx => {
-      try {
-        await Promise.race([
-          ctx.close(),
-          new Promise<void>((_, reject) =>
-            setTimeout(
-              () => reject(new Error('Context close timeout')),
-              this.options.closeTimeout
-            )
-          ),
-        ]);
-      } catch (error: unknown) {
-        if (this.options.logCleanup) {
-          const message =
-            error instanceof Error ? error.message : String(error);
-          process.stdout.write(
-            `[pageman] Warning: failed to close context: ${message}\n`
-          );
+    // Settles once each entry is closed, whatever the outcome
+    const settle = new Map<StackEntry, () => void>();
+    const done = new Map(
+      entries.map(entry => [
+        entry,
+        new Promise<void>(resolve => settle.set(entry, resolve)),
+      ])
+    );
+    const contextEntries = new Map(
+      entries.flatMap(entry =>
+        entry.type === 'context' ? [[entry.resource, entry] as const] : []
+      )
+    );
+
+    await closeInBatches(
+      entries,
+      this.options.closeConcurrency,
+      async entry => {
+        const newer = entries.slice(0, entries.indexOf(entry));
+        try {
+          if (entry.type === 'context') {
+            // Its pages tracked after it close first
+            await Promise.all(
+              newer
+                .filter(
+                  other =>
+                    other.type === 'page' &&
+                    other.resource.context() === entry.resource
+                )
+                .map(other => done.get(other))
+            );
+            await entry.close(failures.context);
+            return;
+          }
+          // A page tracked before its tracked context goes away with it, so
+          // wait for that instead of racing it. The page is only closed on
+          // its own if the context failed to close.
+          const owner = contextEntries.get(entry.resource.context());
+          if (owner && newer.includes(owner)) await done.get(owner);
+          await entry.close(failures.page);
+        } finally {
+          settle.get(entry)!();
         }
-        // Never rethrow during cleanup
       }
-    });
-
-    await Promise.allSettled(closePromises);
-    this.tracked = [];
+    );
+    this.entries = [];
 
-    if (this.options.logCleanup) {
-      process.stdout.write(
-        `[pageman] Successfully cleaned up ${count} context(s)\n`
-      );
-    }
+    this.logger.info(
+      `Successfully cleaned up ${describeCounts(pageCount, contextCount)}`
+    );
   }
 }
 
-// ── Global accessors ───────────────────────────────────────────────
+/** Enforces `maxPages` or `maxContexts` for one tracker */
+class Budget<T> {
+  private warned = false;
 
-let currentExtraPages: ExtraPages | null = null;
-let currentExtraContexts: ExtraContexts | null = null;
+  constructor(
+    private option: 'maxPages' | 'maxContexts',
+    private options: Required<PageManOptions>,
+    private logger: Logger,
+    private describe: (resource: T) => string
+  ) {}
 
-function assertExtraPagesActive(): ExtraPages {
-  if (!currentExtraPages) {
-    throw new Error(
-      'extraPages was accessed outside of a test that uses the extraPages fixture. ' +
-        'Make sure your test imports { test } from "playwright-pageman" and uses the extraPages fixture.'
-    );
-  }
-  return currentExtraPages;
-}
+  /**
+   * Check the open tracked resources, oldest first, and return the ones to
+   * close now. Throws under `budgetPolicy: 'fail'`.
+   */
+  check(open: T[]): T[] {
+    const max = this.options[this.option];
+    if (open.length <= max) return [];
 
-function assertExtraContextsActive(): ExtraContexts {
-  if (!currentExtraContexts) {
-    throw new Error(
-      'extraContexts was accessed outside of a test that uses the extraContexts fixture. ' +
-        'Make sure your test imports { test } from "playwright-pageman" and uses the extraContexts fixture.'
-    );
+    const message =
+      `${this.option} (${max}) exceeded, ${open.length} are open:\n` +
+      open.map(resource => `  - ${this.describe(resource)}`).join('\n');
+    switch (this.options.budgetPolicy) {
+      case 'fail':
+        this.logger.error(message);
+        throw new Error(`[pageman] ${message}`);
+      case 'close-oldest': {
+        const oldest = open.slice(0, open.length - max);
+        this.logger.info(
+          `${this.option} (${max}) exceeded, closing the oldest: ` +
+            oldest.map(this.describe).join(', ')
+        );
+        return oldest;
+      }
+      default:
+        if (!this.warned) {
+          this.warned = true;
+          this.logger.warn(message);
+        }
+        return [];
+    }
   }
-  return currentExtraContexts;
 }
 
-/**
- * Get the ExtraPages instance for the currently running test.
- *
- * @throws {Error} If called outside of a test using the extraPages fixture.
- */
-export function getExtraPages(): ExtraPages {
-  return assertExtraPagesActive();
+/** When and how a resource started being tracked */
+interface TrackedInfo {
+  source: TrackSource;
+  trackedAt: number;
+  closedAt?: number;
+  name?: string;
+  tags?: string[];
+  /** The pending `onTrack` hook, awaited before closing */
+  onTrack?: Promise<void>;
 }
 
-/**
- * Get the ExtraContexts instance for the currently running test.
- *
- * @throws {Error} If called outside of a test using the extraContexts fixture.
- */
-export function getExtraContexts(): ExtraContexts {
-  return assertExtraContextsActive();
-}
+type HookName = 'onTrack' | 'beforeClose' | 'afterClose' | 'onCloseError';
 
 /**
- * Global ExtraPages proxy — access the current test's page tracker directly.
- * No function call needed, just import and use.
- *
- * @example
- * ```ts
- * import { extraPages } from 'playwright-pageman';
- *
- * async function openNewTab(context: BrowserContext) {
- *   const page = await context.newPage();
- *   extraPages.push(page);
- *   return page;
- * }
- * ```
+ * Runs lifecycle hooks with the same timeout and isolation as a close. Hooks
+ * need a TestInfo, so they do not run for worker-scoped trackers.
  */
-export const extraPages: ExtraPages = new Proxy({} as ExtraPages, {
-  get(_, prop: string) {
-    const fixture = assertExtraPagesActive();
-    const value = fixture[prop as keyof ExtraPages];
-    if (typeof value === 'function') {
-      return (value as (...args: any[]) => any).bind(fixture);
-    }
-    return value;
-  },
-});
+class HookRunner {
+  constructor(
+    private options: Required<PageManOptions>,
+    private testInfo: TestInfo | undefined,
+    private logger: Logger,
+    private scope?: TestScope
+  ) {}
 
-/**
- * Global ExtraContexts proxy — access the current test's context tracker directly.
- * No function call needed, just import and use.
- *
- * @example
- * ```ts
- * import { extraContexts } from 'playwright-pageman';
- *
- * async function createIsolatedContext(browser: Browser) {
- *   const context = await browser.newContext();
- *   extraContexts.push(context);
- *   return context;
- * }
- * ```
- */
-export const extraContexts: ExtraContexts = new Proxy({} as ExtraContexts, {
-  get(_, prop: string) {
-    const fixture = assertExtraContextsActive();
-    const value = fixture[prop as keyof ExtraContexts];
-    if (typeof value === 'function') {
-      return (value as (...args: any[]) => any).bind(fixture);
+  async run(
+    name: HookName,
+    resource: Page | BrowserContext,
+    details: PageManHookDetails
+  ): Promise<void> {
+    const { testInfo } = this;
+    if (!testInfo) return;
+    const hook = this.options[name];
+    const call = async () => hook(resource, testInfo, details);
+    try {
+      await closeWithTimeout(
+        // Global accessors used by the hook resolve to this hook's test
+        () => (this.scope ? testScopes.run(this.scope, call) : call()),
+        this.options.closeTimeout,
+        `${name} hook timeout`
+      );
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`${name} hook failed for ${details.type}: ${message}`);
+      // Never let a hook break cleanup
     }
-    return value;
-  },
-});
+  }
+}
 
-// ── Fixtures ───────────────────────────────────────────────────────
+/** Collects cleanup entries and leaks for the `pageman-cleanup.json` attachment */
+class CleanupRecorder {
+  private entries: CleanupEntry[] = [];
+  private leaks: LeakEntry[] = [];
 
-export const test = base.extend<{
-  extraPages: ExtraPages;
-  extraContexts: ExtraContexts;
-  _autoTrackSetup: void;
-}>({
-  // eslint-disable-next-line no-empty-pattern
-  extraPages: async ({}, use, testInfo) => {
-    const options = resolveOptions(testInfo);
-    const tracker = new PageTracker(options);
-
-    const fixture: ExtraPages = {
-      push: (...pages) => tracker.push(...pages),
-      get length() {
-        return tracker.length;
-      },
-      remove: page => tracker.remove(page),
-      closeAll: () => tracker.closeAll(),
-      get pages() {
-        return tracker.pages;
-      },
-    };
+  record(entry: CleanupEntry): void {
+    this.entries.push(entry);
+  }
 
-    // Set global accessor
-    currentExtraPages = fixture;
+  recordLeak(leak: LeakEntry): void {
+    this.leaks.push(leak);
+  }
 
-    await use(fixture);
+  async attach(
+    testInfo: TestInfo,
+    options: Required<PageManOptions>
+  ): Promise<void> {
+    const report: CleanupReport = {
+      titlePath: testInfo.titlePath,
+      retry: testInfo.retry,
+      leakPolicy: options.leakPolicy,
+      entries: this.entries,
+      leaks: this.leaks,
+    };
+    await testInfo.attach(CLEANUP_REPORT_NAME, {
+      body: JSON.stringify(report, null, 2),
+      contentType: 'application/json',
+    });
+  }
+}
 
-    // Teardown: always close all tracked pages
-    try {
-      await tracker.closeAll();
-    } finally {
-      currentExtraPages = null;
-    }
-  },
+interface CloseResult extends Pick<
+  CleanupEntry,
+  'outcome' | 'error' | 'lifetimeMs' | 'closeDurationMs'
+> {
+  /** The raw error, for `timeout` and `error` outcomes */
+  failure?: unknown;
+}
 
-  // eslint-disable-next-line no-empty-pattern
-  extraContexts: async ({}, use, testInfo) => {
-    const options = resolveOptions(testInfo);
-    const tracker = new ContextTracker(options);
+/** Close one tracked resource, measuring how long it lived and took to close */
+async function closeTracked(
+  info: TrackedInfo,
+  isClosed: boolean,
+  close: () => Promise<void>,
+  timeout: number,
+  timeoutMessage: string
+): Promise<CloseResult> {
+  const start = Date.now();
+  if (isClosed || info.closedAt !== undefined) {
+    return {
+      outcome: 'already-closed',
+      lifetimeMs: (info.closedAt ?? start) - info.trackedAt,
+      closeDurationMs: 0,
+    };
+  }
 
-    const fixture: ExtraContexts = {
-      push: (...contexts) => tracker.push(...contexts),
-      get length() {
-        return tracker.length;
-      },
-      remove: context => tracker.remove(context),
-      closeAll: () => tracker.closeAll(),
-      get contexts() {
-        return tracker.contexts;
-      },
+  try {
+    await closeWithTimeout(close, timeout, timeoutMessage);
+    const end = Date.now();
+    return {
+      outcome: 'closed',
+      lifetimeMs: end - info.trackedAt,
+      closeDurationMs: end - start,
+    };
+  } catch (error: unknown) {
+    const end = Date.now();
+    return {
+      outcome: error instanceof CloseTimeoutError ? 'timeout' : 'error',
+      error: error instanceof Error ? error.message : String(error),
+      lifetimeMs: end - info.trackedAt,
+      closeDurationMs: end - start,
+      failure: error,
     };
+  }
+}
 
-    // Set global accessor
-    currentExtraContexts = fixture;
+/**
+ * Contexts pageman created for a single page with `browser.newPage()`, which
+ * can be closed along with it
+ */
+const pageContexts = new WeakSet<BrowserContext>();
 
-    await use(fixture);
+interface ForceCloseOptions {
+  /** Whether the timed out close ran beforeunload handlers */
+  ranBeforeUnload: boolean;
+  /** Whether the page's context may be closed, see `pageContexts` */
+  closeContext: boolean;
+}
 
-    // Teardown: always close all tracked contexts
-    try {
-      await tracker.closeAll();
-    } finally {
-      currentExtraContexts = null;
-    }
+const forceCloseSteps: Record<
+  ForceCloseStep,
+  {
+    label: string;
+    run: (page: Page, options: ForceCloseOptions) => Promise<void | 'skipped'>;
+  }
+> = {
+  'close-without-beforeunload': {
+    label: 'page.close({ runBeforeUnload: false })',
+    // Otherwise the timed out close was this very call
+    run: async (page, { ranBeforeUnload }) =>
+      ranBeforeUnload ? page.close({ runBeforeUnload: false }) : 'skipped',
+  },
+  'close-context': {
+    label: 'closing its context',
+    // Never close a context other pages may still be using, e.g. the default
+    // context fixture or a worker context
+    run: async (page, { closeContext }) =>
+      closeContext ? page.context().close() : 'skipped',
+  },
+  'close-target': {
+    label: 'closing its target over CDP',
+    run: async page => {
+      const context = page.context();
+      if (context.browser()?.browserType().name() !== 'chromium') {
+        return 'skipped';
+      }
+      const session = await context.newCDPSession(page);
+      const { targetInfo } = await session.send('Target.getTargetInfo');
+      await session.send('Target.closeTarget', {
+        targetId: targetInfo.targetId,
+      });
+    },
+  },
+};
+
+/**
+ * Escalate after `page.close()` timed out, each step under `closeTimeout`,
+ * until one closes the page. Every step is logged and returned for the report.
+ */
+async function forceClosePage(
+  page: Page,
+  description: string,
+  timeout: number,
+  logger: Logger,
+  options: ForceCloseOptions
+): Promise<ForceCloseAttempt[]> {
+  const attempts: ForceCloseAttempt[] = [];
+  for (const [step, { label, run }] of Object.entries(forceCloseSteps) as [
+    ForceCloseStep,
+    (typeof forceCloseSteps)[ForceCloseStep],
+  ][]) {
+    if (page.isClosed()) break;
+
+    let attempt: ForceCloseAttempt = { step, outcome: 'closed' };
+    try {
+      await closeWithTimeout(
+        async () => {
+          if ((await run(page, options)) === 'skipped') {
+            attempt = { step, outcome: 'skipped' };
+          }
+        },
+        timeout,
+        `${step} timeout`
+      );
+    } catch (error: unknown) {
+      attempt = {
+        step,
+        outcome: error instanceof CloseTimeoutError ? 'timeout' : 'error',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    attempts.push(attempt);
+    logger.warn(
+      `force-closing ${description}, ${label}: ${attempt.outcome}` +
+        (attempt.error ? ` (${attempt.error})` : '')
+    );
+    if (attempt.outcome === 'closed') break;
+  }
+  return attempts;
+}
+
+/**
+ * Same definition of failure as Playwright: expected failures (test.fail())
+ * and skipped tests do not count
+ */
+function testFailed(testInfo: TestInfo): boolean {
+  return (
+    testInfo.status !== 'skipped' && testInfo.status !== testInfo.expectedStatus
+  );
+}
+
+/** ` "name"` for named pages, to append to "page" in messages */
+function nameLabel(name: string | undefined): string {
+  return name === undefined ? '' : ` "${name}"`;
+}
+
+class PageTracker {
+  private tracked: Page[] = [];
+  private info = new Map<Page, TrackedInfo>();
+  private popupListeners = new Map<Page, (popup: Page) => void>();
+  private captured = new WeakSet<Page>();
+  private budget: Budget<Page>;
+
+  constructor(
+    private options: Required<PageManOptions>,
+    private recorder: CleanupRecorder,
+    private logger: Logger,
+    private hooks: HookRunner,
+    private stack: CleanupStack
+  ) {
+    stack.register(this);
+    this.budget = new Budget(
+      'maxPages',
+      options,
+      logger,
+      page => `page${nameLabel(this.info.get(page)?.name)} ${page.url()}`
+    );
+  }
+
+  push(pages: Page[], options: TrackOptions = {}): void {
+    const { name } = options;
+    if (name !== undefined) {
+      if (pages.length !== 1) {
+        throw new Error(
+          `[pageman] A name can only be given to one page, got ${pages.length} pages for "${name}"`
+        );
+      }
+      const owner = this.get(name);
+      if (owner && owner !== pages[0]) {
+        throw new Error(
+          `[pageman] Cannot track page ${pages[0].url()} as "${name}": ` +
+            `that name is already used by tracked page ${owner.url()}`
+        );
+      }
+    }
+    for (const page of pages) {
+      this.add(page, 'manual', options);
+    }
+    this.enforceBudget();
+  }
+
+  /** Track pages, remembering whether pageman picked them up itself */
+  track(source: TrackSource, ...pages: Page[]): void {
+    for (const page of pages) {
+      this.add(page, source);
+    }
+    this.enforceBudget();
+  }
+
+  /** Track a page opened by an event, where there is no caller to throw to */
+  follow(page: Page): void {
+    try {
+      this.track('auto', page);
+    } catch (error: unknown) {
+      this.stack.fail(error as Error);
+    }
+  }
+
+  private enforceBudget(): void {
+    const open = this.tracked.filter(
+      page => !page.isClosed() && !this.info.get(page)?.closedAt
+    );
+    for (const page of this.budget.check(open)) {
+      this.stack.evict(page);
+    }
+  }
+
+  private add(
+    page: Page,
+    source: TrackSource,
+    { name, tags = [] }: TrackOptions = {}
+  ): void {
+    const existing = this.info.get(page);
+    if (existing) {
+      // Already tracked (e.g. auto-tracked), only add the labels
+      existing.name = name ?? existing.name;
+      existing.tags = [...new Set([...(existing.tags ?? []), ...tags])];
+      return;
+    }
+
+    this.tracked.push(page);
+    this.stack.push({
+      type: 'page',
+      resource: page,
+      close: failures => this.close(page, failures),
+    });
+    const info: TrackedInfo = { source, trackedAt: Date.now(), name, tags };
+    this.info.set(page, info);
+    this.logger.debug(
+      `Tracking page${nameLabel(name)} ${page.url()} (${source})`
+    );
+    info.onTrack = this.hooks.run('onTrack', page, {
+      type: 'page',
+      source,
+      name,
+    });
+    page.once('close', () => {
+      info.closedAt ??= Date.now();
+    });
+    if (this.options.autoTrackPopups) {
+      this.watch(page);
+    }
+  }
+
+  get(name: string): Page | undefined {
+    return this.tracked.find(page => this.info.get(page)?.name === name);
+  }
+
+  byTag(tag: string): Page[] {
+    return this.tracked.filter(page =>
+      this.info.get(page)?.tags?.includes(tag)
+    );
+  }
+
+  get names(): readonly string[] {
+    return this.tracked.flatMap(page => this.info.get(page)?.name ?? []);
+  }
+
+  get length(): number {
+    return this.tracked.length;
+  }
+
+  get pages(): readonly Page[] {
+    return [...this.tracked];
+  }
+
+  /**
+   * Attach a screenshot (and optionally the HTML) of every tracked page that
+   * is still open, according to the `screenshot` option. Each page is
+   * captured at most once per test.
+   */
+  async capture(
+    testInfo: TestInfo,
+    filter: (page: Page) => boolean = () => true
+  ): Promise<void> {
+    const { screenshot, captureHtml, closeTimeout } = this.options;
+    if (screenshot === 'off') return;
+    if (screenshot === 'only-on-failure' && !testFailed(testInfo)) return;
+
+    const targets = this.tracked.filter(
+      page => !page.isClosed() && !this.captured.has(page) && filter(page)
+    );
+
+    await Promise.allSettled(
+      targets.map(async page => {
+        this.captured.add(page);
+        const name = `pageman-page-${this.tracked.indexOf(page) + 1}`;
+        try {
+          const png = await page.screenshot({ timeout: closeTimeout });
+          await testInfo.attach(`${name}.png`, {
+            body: png,
+            contentType: 'image/png',
+          });
+          if (captureHtml) {
+            await testInfo.attach(`${name}.html`, {
+              body: await page.content(),
+              contentType: 'text/html',
+            });
+          }
+        } catch (error: unknown) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          this.logger.warn(`failed to capture page: ${message}`);
+          // Never fail the test because evidence could not be captured
+        }
+      })
+    );
+  }
+
+  remove(page: Page): boolean {
+    const index = this.tracked.indexOf(page);
+    if (index !== -1) {
+      this.tracked.splice(index, 1);
+      this.info.delete(page);
+      this.unwatch(page);
+      this.stack.remove(page);
+      return true;
+    }
+    return false;
+  }
+
+  /** Stop following popups so pages opened during teardown are not tracked */
+  stopWatching(): void {
+    for (const page of this.tracked) {
+      this.unwatch(page);
+    }
+  }
+
+  private watch(page: Page): void {
+    const listener = (popup: Page) => this.follow(popup);
+    this.popupListeners.set(page, listener);
+    page.on('popup', listener);
+  }
+
+  private unwatch(page: Page): void {
+    const listener = this.popupListeners.get(page);
+    if (listener) {
+      page.off('popup', listener);
+      this.popupListeners.delete(page);
+    }
+  }
+
+  /** Close one tracked page, running hooks and recording the outcome */
+  private async close(page: Page, failures: CloseFailure[]): Promise<void> {
+    const url = page.url();
+    const info = this.info.get(page)!;
+    this.remove(page);
+    const details: PageManHookDetails = {
+      type: 'page',
+      source: info.source,
+      name: info.name,
+    };
+    await info.onTrack;
+    if (!page.isClosed() && info.closedAt === undefined) {
+      await this.hooks.run('beforeClose', page, details);
+    }
+    const stopAnswering = this.answerDialogs(
+      page,
+      `page${nameLabel(info.name)} ${url}`
+    );
+    const { failure, ...result } = await closeTracked(
+      info,
+      page.isClosed(),
+      () => this.closePage(page),
+      this.options.closeTimeout,
+      'Page close timeout'
+    ).finally(stopAnswering);
+    // A page left open is the leak pageman exists to prevent
+    const forceClose =
+      result.outcome === 'timeout' && this.options.forceClose
+        ? await forceClosePage(
+            page,
+            `page${nameLabel(info.name)} ${url}`,
+            this.options.closeTimeout,
+            this.logger,
+            {
+              ranBeforeUnload: this.options.dialogPolicy === 'accept',
+              closeContext:
+                pageContexts.has(page.context()) ||
+                this.stack.tracks(page.context()),
+            }
+          )
+        : undefined;
+    this.recorder.record({
+      type: 'page',
+      url,
+      name: info.name,
+      ...(info.tags?.length ? { tags: info.tags } : {}),
+      source: info.source,
+      ...result,
+      ...(forceClose ? { forceClose } : {}),
+    });
+    await this.hooks.run('afterClose', page, {
+      ...details,
+      outcome: result.outcome,
+    });
+
+    if (result.outcome === 'timeout' || result.outcome === 'error') {
+      await this.hooks.run('onCloseError', page, {
+        ...details,
+        outcome: result.outcome,
+        error: failure,
+      });
+      failures.push({
+        resource: `page${nameLabel(info.name)} ${url}`,
+        error: failure,
+      });
+      this.logger.warn(
+        `failed to close page${nameLabel(info.name)}: ${result.error}`
+      );
+      // Never rethrow while other pages are still closing
+    }
+  }
+
+  /**
+   * Answer dialogs that could block closing the page, per `dialogPolicy`.
+   * Returns a function removing the handler.
+   */
+  private answerDialogs(page: Page, description: string): () => void {
+    const policy = this.options.dialogPolicy;
+    if (policy === 'leave') return () => {};
+
+    const handler = (dialog: Dialog) => {
+      this.logger.warn(
+        `${policy === 'accept' ? 'accepted' : 'dismissed'} ${dialog.type()} ` +
+          `dialog on ${description}: ${dialog.message()}`
+      );
+      // Fails if the test's own handler already answered it
+      (policy === 'accept' ? dialog.accept() : dialog.dismiss()).catch(
+        () => {}
+      );
+    };
+    page.on('dialog', handler);
+    return () => page.off('dialog', handler);
+  }
+
+  private async closePage(page: Page): Promise<void> {
+    if (this.options.dialogPolicy !== 'accept') {
+      await page.close({ runBeforeUnload: false });
+      return;
+    }
+    // With runBeforeUnload, close() does not wait for the page to close
+    const closed = new Promise(resolve => page.once('close', resolve));
+    await page.close({ runBeforeUnload: true });
+    await closed;
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.tracked.length === 0) return;
+
+    const count = this.tracked.length;
+    this.stopWatching();
+    this.logger.info(`Closing ${count} tracked page(s) in reverse order`);
+
+    // Close in reverse order (LIFO) — safer for parent/child pages. With
+    // closeConcurrency: 1, each page is closed only once newer ones are
+    const reversed = [...this.tracked].reverse();
+
+    const failures: CloseFailure[] = [];
+    await closeInBatches(reversed, this.options.closeConcurrency, page =>
+      this.close(page, failures)
+    );
+
+    this.logger.info(`Successfully cleaned up ${count} page(s)`);
+
+    if (this.options.strictCleanup && failures.length > 0) {
+      throw strictCleanupError('page', failures);
+    }
+  }
+
+  /** Close the given pages that are still tracked now, newest first */
+  async dispose(pages: Page[]): Promise<void> {
+    const failures: CloseFailure[] = [];
+    const tracked = pages.filter(page => this.tracked.includes(page));
+    await closeInBatches(
+      tracked.reverse(),
+      this.options.closeConcurrency,
+      page => this.close(page, failures)
+    );
+
+    if (this.options.strictCleanup && failures.length > 0) {
+      throw strictCleanupError('page', failures);
+    }
+  }
+}
+
+type VideoOption = PlaywrightWorkerOptions['video'];
+
+/**
+ * Records video of pages in contexts pageman creates or auto-tracks,
+ * following the project `video` mode the same way Playwright does for the
+ * default context.
+ */
+class VideoRecorder {
+  private mode: VideoMode;
+  private size?: ViewportSize;
+  /** Where videos are recorded before being kept or deleted */
+  private dir?: string;
+  private recorded: Page[] = [];
+  private saved = 0;
+
+  constructor(
+    video: VideoOption,
+    private testInfo: TestInfo,
+    private logger: Logger
+  ) {
+    const { mode, size } =
+      typeof video === 'string' ? { mode: video, size: undefined } : video;
+    this.mode = mode === 'retry-with-video' ? 'on-first-retry' : mode;
+    this.size = size;
+  }
+
+  private shouldCapture(): boolean {
+    return (
+      this.mode === 'on' ||
+      this.mode === 'retain-on-failure' ||
+      (this.mode === 'on-first-retry' && this.testInfo.retry === 1)
+    );
+  }
+
+  /**
+   * Context options with `recordVideo` added, or undefined when nothing
+   * should be recorded. A `recordVideo` set by the caller always wins.
+   */
+  withVideo<T extends BrowserContextOptions>(options?: T): T | undefined {
+    if (!this.shouldCapture() || options?.recordVideo) return undefined;
+    this.dir ??= this.testInfo.outputPath('.pageman-videos');
+    return {
+      ...options,
+      recordVideo: { dir: this.dir, size: this.size },
+    } as T;
+  }
+
+  /** Collect the videos of every page of a context created `withVideo()` */
+  record(context: BrowserContext): void {
+    const add = (page: Page) => {
+      if (!this.recorded.includes(page)) this.recorded.push(page);
+    };
+    context.pages().forEach(add);
+    context.on('page', add);
+  }
+
+  /**
+   * Attach the videos of closed pages when the mode keeps them, then delete
+   * the recordings. Run once the trackers have closed everything.
+   */
+  async finish(): Promise<void> {
+    if (!this.dir) return;
+
+    const keep = this.mode !== 'retain-on-failure' || testFailed(this.testInfo);
+    await Promise.allSettled(
+      this.recorded
+        .filter(page => page.isClosed())
+        .map(async page => {
+          const video = page.video();
+          if (!video) return;
+          try {
+            if (keep) {
+              const path = this.testInfo.outputPath(
+                `pageman-video-${++this.saved}.webm`
+              );
+              await video.saveAs(path);
+              await this.testInfo.attach('video', {
+                path,
+                contentType: 'video/webm',
+              });
+            }
+            await video.delete();
+          } catch (error: unknown) {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            this.logger.warn(`failed to save page video: ${message}`);
+            // Never fail the test because a video could not be saved
+          }
+        })
+    );
+    await fs.promises.rm(this.dir, { recursive: true, force: true });
+  }
+}
+
+class ContextTracker {
+  private tracked: BrowserContext[] = [];
+  private info = new Map<BrowserContext, TrackedInfo>();
+  private pageListeners = new Map<BrowserContext, (page: Page) => void>();
+  private budget: Budget<BrowserContext>;
+
+  constructor(
+    private options: Required<PageManOptions>,
+    private pages: PageTracker,
+    private recorder: CleanupRecorder,
+    private logger: Logger,
+    private hooks: HookRunner,
+    private stack: CleanupStack
+  ) {
+    stack.register(this);
+    this.budget = new Budget('maxContexts', options, logger, describeContext);
+  }
+
+  push(...contexts: BrowserContext[]): void {
+    this.track('manual', ...contexts);
+  }
+
+  /** Track contexts, remembering whether pageman picked them up itself */
+  track(source: TrackSource, ...contexts: BrowserContext[]): void {
+    for (const ctx of contexts) {
+      if (!this.tracked.includes(ctx)) {
+        this.tracked.push(ctx);
+        this.stack.push({
+          type: 'context',
+          resource: ctx,
+          close: failures => this.close(ctx, failures),
+        });
+        const info: TrackedInfo = { source, trackedAt: Date.now() };
+        this.info.set(ctx, info);
+        this.logger.debug(`Tracking ${describeContext(ctx)} (${source})`);
+        info.onTrack = this.hooks.run('onTrack', ctx, {
+          type: 'context',
+          source,
+        });
+        ctx.once('close', () => {
+          info.closedAt ??= Date.now();
+        });
+        if (this.options.autoTrackContextPages) {
+          this.watch(ctx);
+        }
+      }
+    }
+
+    const open = this.tracked.filter(ctx => !this.info.get(ctx)?.closedAt);
+    for (const ctx of this.budget.check(open)) {
+      this.stack.evict(ctx);
+    }
+  }
+
+  get length(): number {
+    return this.tracked.length;
+  }
+
+  get contexts(): readonly BrowserContext[] {
+    return [...this.tracked];
+  }
+
+  remove(context: BrowserContext): boolean {
+    return this.forget(context);
+  }
+
+  /** Stop tracking a context */
+  private forget(context: BrowserContext): boolean {
+    const index = this.tracked.indexOf(context);
+    if (index !== -1) {
+      this.tracked.splice(index, 1);
+      this.info.delete(context);
+      this.unwatch(context);
+      this.stack.remove(context);
+      return true;
+    }
+    return false;
+  }
+
+  /** Stop following pages so pages opened during teardown are not tracked */
+  stopWatching(): void {
+    for (const ctx of this.tracked) {
+      this.unwatch(ctx);
+    }
+  }
+
+  private watch(context: BrowserContext): void {
+    const listener = (page: Page) => this.pages.follow(page);
+    this.pageListeners.set(context, listener);
+    context.on('page', listener);
+  }
+
+  private unwatch(context: BrowserContext): void {
+    const listener = this.pageListeners.get(context);
+    if (listener) {
+      context.off('page', listener);
+      this.pageListeners.delete(context);
+    }
+  }
+
+  /** Close one tracked context, running hooks and recording the outcome */
+  private async close(
+    ctx: BrowserContext,
+    failures: CloseFailure[]
+  ): Promise<void> {
+    const resource = describeContext(ctx);
+    const pageUrls = ctx.pages().map(page => page.url());
+    const info = this.info.get(ctx)!;
+    this.forget(ctx);
+    const details: PageManHookDetails = {
+      type: 'context',
+      source: info.source,
+    };
+    await info.onTrack;
+    if (info.closedAt === undefined) {
+      await this.hooks.run('beforeClose', ctx, details);
+    }
+    const { failure, ...result } = await closeTracked(
+      info,
+      false,
+      () => ctx.close(),
+      this.options.closeTimeout,
+      'Context close timeout'
+    );
+    this.recorder.record({
+      type: 'context',
+      pageUrls,
+      source: info.source,
+      ...result,
+    });
+    await this.hooks.run('afterClose', ctx, {
+      ...details,
+      outcome: result.outcome,
+    });
+
+    if (result.outcome === 'timeout' || result.outcome === 'error') {
+      await this.hooks.run('onCloseError', ctx, {
+        ...details,
+        outcome: result.outcome,
+        error: failure,
+      });
+      failures.push({ resource, error: failure });
+      this.logger.warn(`failed to close context: ${result.error}`);
+      // Never rethrow while other contexts are still closing
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.tracked.length === 0) return;
+
+    const count = this.tracked.length;
+    this.stopWatching();
+    this.logger.info(`Closing ${count} tracked context(s) in reverse order`);
+
+    // Close in reverse order (LIFO)
+    // Closing a context automatically closes all its pages
+    const reversed = [...this.tracked].reverse();
+
+    const failures: CloseFailure[] = [];
+    await closeInBatches(reversed, this.options.closeConcurrency, ctx =>
+      this.close(ctx, failures)
+    );
+
+    this.logger.info(`Successfully cleaned up ${count} context(s)`);
+
+    if (this.options.strictCleanup && failures.length > 0) {
+      throw strictCleanupError('context', failures);
+    }
+  }
+
+  /** Close the given contexts that are still tracked now, newest first */
+  async dispose(contexts: BrowserContext[]): Promise<void> {
+    const failures: CloseFailure[] = [];
+    const tracked = contexts.filter(ctx => this.tracked.includes(ctx));
+    await closeInBatches(
+      tracked.reverse(),
+      this.options.closeConcurrency,
+      ctx => this.close(ctx, failures)
+    );
+
+    if (this.options.strictCleanup && failures.length > 0) {
+      throw strictCleanupError('context', failures);
+    }
+  }
+}
+
+function describeBrowser(browser: Browser): string {
+  return `${browser.browserType().name()} ${browser.version()}`;
+}
+
+/**
+ * Tracks browsers launched or connected to by a test. They are closed after
+ * the test's pages and contexts, and are not part of the cleanup report.
+ */
+class BrowserTracker {
+  private tracked: Browser[] = [];
+
+  constructor(
+    private options: Required<PageManOptions>,
+    private logger: Logger
+  ) {}
+
+  push(...browsers: Browser[]): void {
+    for (const browser of browsers) {
+      if (!this.tracked.includes(browser)) {
+        this.tracked.push(browser);
+        this.logger.debug(`Tracking browser ${describeBrowser(browser)}`);
+      }
+    }
+  }
+
+  get length(): number {
+    return this.tracked.length;
+  }
+
+  get browsers(): readonly Browser[] {
+    return [...this.tracked];
+  }
+
+  remove(browser: Browser): boolean {
+    const index = this.tracked.indexOf(browser);
+    if (index !== -1) {
+      this.tracked.splice(index, 1);
+      return true;
+    }
+    return false;
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.tracked.length === 0) return;
+
+    const count = this.tracked.length;
+    this.logger.info(`Closing ${count} tracked browser(s) in reverse order`);
+    const reversed = this.tracked.splice(0).reverse();
+
+    const failures: CloseFailure[] = [];
+    await closeInBatches(
+      reversed,
+      this.options.closeConcurrency,
+      async browser => {
+        if (!browser.isConnected()) return;
+        const description = describeBrowser(browser);
+        try {
+          await closeWithTimeout(
+            () => browser.close(),
+            this.options.closeTimeout,
+            'Browser close timeout'
+          );
+        } catch (error: unknown) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          failures.push({ resource: `browser ${description}`, error });
+          this.logger.warn(`failed to close browser: ${message}`);
+        }
+      }
+    );
+
+    this.logger.info(`Successfully cleaned up ${count} browser(s)`);
+
+    if (this.options.strictCleanup && failures.length > 0) {
+      throw strictCleanupError('browser', failures);
+    }
+  }
+}
+
+/**
+ * Temporary user data dirs of persistent contexts. A dir is only deleted once
+ * its context is closed, a context removed from tracking keeps its dir.
+ */
+class UserDataDirs {
+  private dirs = new Map<BrowserContext, string>();
+  private closed = new WeakSet<BrowserContext>();
+
+  constructor(private logger: Logger) {}
+
+  async launch(
+    browserType: BrowserType,
+    options: LaunchPersistentOptions
+  ): Promise<BrowserContext> {
+    const dir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), 'pageman-user-data-')
+    );
+    let context: BrowserContext;
+    try {
+      context = await browserType.launchPersistentContext(dir, options);
+    } catch (error) {
+      await this.delete(dir);
+      throw error;
+    }
+    this.dirs.set(context, dir);
+    context.once('close', () => this.closed.add(context));
+    this.logger.debug(`Launched persistent context in ${dir}`);
+    return context;
+  }
+
+  /** Delete the dirs of closed contexts, or keep them all when `keep` is set */
+  async removeAll(keep: boolean): Promise<void> {
+    const entries = [...this.dirs];
+    this.dirs.clear();
+    await Promise.all(
+      entries.map(async ([context, dir]) => {
+        if (keep) {
+          this.logger.warn(`kept user data dir ${dir}`);
+        } else if (!this.closed.has(context)) {
+          this.logger.warn(
+            `user data dir ${dir} was not deleted, its context is still open`
+          );
+        } else {
+          await this.delete(dir);
+        }
+      })
+    );
+  }
+
+  private async delete(dir: string): Promise<void> {
+    try {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+      this.logger.debug(`Deleted user data dir ${dir}`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`failed to delete user data dir ${dir}: ${message}`);
+    }
+  }
+}
+
+// ── Leak detection ─────────────────────────────────────────────────
+
+interface Leaks {
+  contexts: BrowserContext[];
+  pages: Page[];
+}
+
+/**
+ * Snapshots the browser before the test and, once every pageman and
+ * Playwright fixture has been torn down, reports pages and contexts that
+ * were opened during the test and are still open.
+ */
+class LeakDetector {
+  private contextsBefore = new Set<BrowserContext>();
+  private pagesBefore = new Set<Page>();
+  private ignored = new Set<Page | BrowserContext>();
+
+  constructor(
+    private browser: Browser,
+    private options: Required<PageManOptions>,
+    private testInfo: TestInfo,
+    private recorder: CleanupRecorder,
+    private logger: Logger
+  ) {
+    if (this.options.leakPolicy === 'ignore') return;
+
+    for (const ctx of this.browser.contexts()) {
+      this.contextsBefore.add(ctx);
+      for (const page of ctx.pages()) {
+        this.pagesBefore.add(page);
+      }
+    }
+  }
+
+  /**
+   * Exclude a page/context that is closed by someone else, e.g. the default
+   * context fixture or the worker-scoped trackers
+   */
+  ignore(resource: Page | BrowserContext): void {
+    this.ignored.add(resource);
+  }
+
+  private findLeaks(): Leaks {
+    const leaks: Leaks = { contexts: [], pages: [] };
+
+    for (const ctx of this.browser.contexts()) {
+      if (this.ignored.has(ctx)) continue;
+
+      // A leaked context takes its pages with it, so report it as a whole
+      if (!this.contextsBefore.has(ctx)) {
+        leaks.contexts.push(ctx);
+        continue;
+      }
+
+      for (const page of ctx.pages()) {
+        if (
+          !this.pagesBefore.has(page) &&
+          !this.ignored.has(page) &&
+          !page.isClosed()
+        ) {
+          leaks.pages.push(page);
+        }
+      }
+    }
+
+    return leaks;
+  }
+
+  async check(): Promise<void> {
+    if (this.options.leakPolicy === 'ignore') return;
+
+    const leaks = this.findLeaks();
+    const count = leaks.contexts.length + leaks.pages.length;
+    if (count === 0) return;
+
+    for (const ctx of leaks.contexts) {
+      this.recorder.recordLeak({
+        type: 'context',
+        pageUrls: ctx.pages().map(page => page.url()),
+      });
+    }
+    for (const page of leaks.pages) {
+      this.recorder.recordLeak({ type: 'page', url: page.url() });
+    }
+
+    const report =
+      `${count} page(s)/context(s) left open by "${this.testInfo.title}":\n` +
+      [
+        ...leaks.contexts.map(ctx => `  - ${describeContext(ctx)}`),
+        ...leaks.pages.map(page => `  - page ${page.url()}`),
+      ].join('\n');
+
+    if (this.options.leakPolicy === 'warn') {
+      this.logger.warn(report);
+      return;
+    }
+
+    this.logger.info(`Closing ${count} leaked resource(s)`);
+    await this.close(leaks);
+
+    if (this.options.leakPolicy === 'fail') {
+      throw new Error(`[pageman] Leak detected: ${report}`);
+    }
+  }
+
+  private async close(leaks: Leaks): Promise<void> {
+    const targets: { close: () => Promise<void>; kind: string }[] = [
+      ...leaks.pages.map(page => ({ close: () => page.close(), kind: 'page' })),
+      ...leaks.contexts.map(ctx => ({
+        close: () => ctx.close(),
+        kind: 'context',
+      })),
+    ];
+
+    await Promise.allSettled(
+      targets.map(async ({ close, kind }) => {
+        try {
+          await closeWithTimeout(
+            close,
+            this.options.closeTimeout,
+            `Leaked ${kind} close timeout`
+          );
+        } catch (error: unknown) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          this.logger.warn(`failed to close leaked ${kind}: ${message}`);
+          // Never rethrow during cleanup
+        }
+      })
+    );
+  }
+}
+
+// ── Global accessors ───────────────────────────────────────────────
+
+/** The trackers of one test, see the `_testScope` fixture */
+interface TestScope {
+  /** Title path of the owning test, for error messages */
+  title: string;
+  extraPages?: ExtraPages;
+  extraContexts?: ExtraContexts;
+  extraBrowsers?: ExtraBrowsers;
+  /** Set once the test's trackers are torn down */
+  tornDown: boolean;
+}
+
+/**
+ * Bound to the work pageman does for a test and, where Playwright allows it,
+ * to everything Playwright runs for it (see `bindToScope()`). Code started
+ * from there keeps resolving to that test's trackers, even once the next test
+ * has started.
+ */
+const testScopes = new AsyncLocalStorage<TestScope>();
+
+/** Scope of the running test, for code not bound to a scope */
+let runningScope: TestScope | undefined;
+
+/**
+ * Private TestInfo methods that run hooks, fixtures and the test body, with
+ * the callback as their last argument: `_runAsStage(stage, cb)` (1.45 to
+ * 1.50) and `_runWithTimeout(runnable, cb)` (1.52 and later). Older versions
+ * start the whole test before any fixture, leaving nothing to wrap.
+ */
+const RUNNERS = ['_runWithTimeout', '_runAsStage'] as const;
+
+type Runner = (...args: unknown[]) => Promise<unknown>;
+
+/**
+ * Run the rest of the test (hooks, fixtures and the test body) inside its
+ * scope. Playwright has no public API for this, so this wraps the private
+ * runners they all go through. Without them, the accessors fall back to
+ * `runningScope`. Returns a function to unwrap them.
+ */
+function bindToScope(testInfo: TestInfo, scope: TestScope): () => void {
+  const info = testInfo as unknown as Partial<
+    Record<(typeof RUNNERS)[number], Runner>
+  >;
+  const restores = RUNNERS.flatMap(name => {
+    const original = info[name];
+    if (typeof original !== 'function') return [];
+    info[name] = (...args) => {
+      const cb = args[args.length - 1];
+      if (typeof cb === 'function') {
+        args[args.length - 1] = () => testScopes.run(scope, () => cb());
+      }
+      return original.apply(info, args);
+    };
+    return [
+      () => {
+        info[name] = original;
+      },
+    ];
+  });
+  return () => restores.forEach(restore => restore());
+}
+
+/** The calling test's scope, or the running test's when unbound */
+function currentScope(): TestScope | undefined {
+  return testScopes.getStore() ?? runningScope;
+}
+
+let currentWorkerExtraPages: ExtraPages | null = null;
+let currentWorkerExtraContexts: ExtraContexts | null = null;
+
+/** The scope of the calling test, unless its trackers are torn down */
+function liveScope(): TestScope | undefined {
+  const scope = currentScope();
+  return scope?.tornDown ? undefined : scope;
+}
+
+function resolveScope(
+  name: 'extraPages' | 'extraContexts' | 'extraBrowsers'
+): TestScope {
+  const scope = currentScope();
+  if (scope?.tornDown) {
+    throw new Error(
+      `${name} was accessed after the test that owned it was torn down: "${scope.title}". ` +
+        'Make sure everything the test starts is awaited before it ends.'
+    );
+  }
+  if (!scope?.[name]) {
+    throw new Error(
+      `${name} was accessed outside of a test that uses the ${name} fixture. ` +
+        `Make sure your test imports { test } from "playwright-pageman" and uses the ${name} fixture.`
+    );
+  }
+  return scope;
+}
+
+function assertExtraPagesActive(): ExtraPages {
+  return resolveScope('extraPages').extraPages!;
+}
+
+function assertExtraContextsActive(): ExtraContexts {
+  return resolveScope('extraContexts').extraContexts!;
+}
+
+function assertExtraBrowsersActive(): ExtraBrowsers {
+  return resolveScope('extraBrowsers').extraBrowsers!;
+}
+
+function assertWorkerExtraPagesActive(): ExtraPages {
+  if (!currentWorkerExtraPages) {
+    throw new Error(
+      'workerExtraPages was accessed outside of a worker that uses the workerExtraPages fixture. ' +
+        'Make sure your test imports { test } from "playwright-pageman".'
+    );
+  }
+  return currentWorkerExtraPages;
+}
+
+function assertWorkerExtraContextsActive(): ExtraContexts {
+  if (!currentWorkerExtraContexts) {
+    throw new Error(
+      'workerExtraContexts was accessed outside of a worker that uses the workerExtraContexts fixture. ' +
+        'Make sure your test imports { test } from "playwright-pageman".'
+    );
+  }
+  return currentWorkerExtraContexts;
+}
+
+/** Forward every property access to the fixture returned by `resolve()` */
+function createAccessor<T extends object>(resolve: () => T): T {
+  return new Proxy({} as T, {
+    get(_, prop: string) {
+      const fixture = resolve();
+      const value = fixture[prop as keyof T];
+      if (typeof value === 'function') {
+        return (value as (...args: any[]) => any).bind(fixture);
+      }
+      return value;
+    },
+  });
+}
+
+/**
+ * Get the ExtraPages instance for the currently running test.
+ *
+ * @throws {Error} If called outside of a test using the extraPages fixture.
+ */
+export function getExtraPages(): ExtraPages {
+  return assertExtraPagesActive();
+}
+
+/**
+ * Get the ExtraContexts instance for the currently running test.
+ *
+ * @throws {Error} If called outside of a test using the extraContexts fixture.
+ */
+export function getExtraContexts(): ExtraContexts {
+  return assertExtraContextsActive();
+}
+
+/**
+ * Get the worker-scoped ExtraPages instance of the current worker.
+ *
+ * @throws {Error} If called outside of a worker running pageman tests.
+ */
+export function getWorkerExtraPages(): ExtraPages {
+  return assertWorkerExtraPagesActive();
+}
+
+/**
+ * Get the worker-scoped ExtraContexts instance of the current worker.
+ *
+ * @throws {Error} If called outside of a worker running pageman tests.
+ */
+export function getWorkerExtraContexts(): ExtraContexts {
+  return assertWorkerExtraContextsActive();
+}
+
+/**
+ * Global ExtraPages proxy — access the current test's page tracker directly.
+ * No function call needed, just import and use.
+ *
+ * @example
+ * ```ts
+ * import { extraPages } from 'playwright-pageman';
+ *
+ * async function openNewTab(context: BrowserContext) {
+ *   const page = await context.newPage();
+ *   extraPages.push(page);
+ *   return page;
+ * }
+ * ```
+ */
+export const extraPages: ExtraPages = createAccessor(assertExtraPagesActive);
+
+/**
+ * Global ExtraContexts proxy — access the current test's context tracker directly.
+ * No function call needed, just import and use.
+ *
+ * @example
+ * ```ts
+ * import { extraContexts } from 'playwright-pageman';
+ *
+ * async function createIsolatedContext(browser: Browser) {
+ *   const context = await browser.newContext();
+ *   extraContexts.push(context);
+ *   return context;
+ * }
+ * ```
+ */
+export const extraContexts: ExtraContexts = createAccessor(
+  assertExtraContextsActive
+);
+
+/**
+ * Get the ExtraBrowsers instance for the currently running test.
+ *
+ * @throws {Error} If called outside of a test using pageman's `test`.
+ */
+export function getExtraBrowsers(): ExtraBrowsers {
+  return assertExtraBrowsersActive();
+}
+
+/**
+ * Global ExtraBrowsers proxy — access the current test's browser tracker.
+ *
+ * @example
+ * ```ts
+ * import { extraBrowsers } from 'playwright-pageman';
+ *
+ * async function launchFirefox(playwright: typeof import('playwright')) {
+ *   const browser = await playwright.firefox.launch();
+ *   extraBrowsers.push(browser);
+ *   return browser;
+ * }
+ * ```
+ */
+export const extraBrowsers: ExtraBrowsers = createAccessor(
+  assertExtraBrowsersActive
+);
+
+/**
+ * Global worker-scoped ExtraPages proxy — pages pushed here stay open across
+ * the tests of a worker and are closed at worker teardown.
+ */
+export const workerExtraPages: ExtraPages = createAccessor(
+  assertWorkerExtraPagesActive
+);
+
+/**
+ * Global worker-scoped ExtraContexts proxy — usable from `beforeAll` hooks
+ * and helpers, e.g. for an admin session shared by a whole file.
+ *
+ * @example
+ * ```ts
+ * import { workerExtraContexts } from 'playwright-pageman';
+ *
+ * test.beforeAll(async ({ browser }) => {
+ *   adminContext = await browser.newContext({ storageState: 'admin.json' });
+ *   workerExtraContexts.push(adminContext);
+ * });
+ * ```
+ */
+export const workerExtraContexts: ExtraContexts = createAccessor(
+  assertWorkerExtraContextsActive
+);
+
+/**
+ * Make `await using` close a page/context through its tracker while it is
+ * tracked, so it is recorded and forgotten right away rather than left for
+ * teardown.
+ */
+function disposeThrough<T extends Page | BrowserContext>(
+  resource: T,
+  dispose: () => Promise<void>
+): T {
+  Object.defineProperty(resource, Symbol.asyncDispose, {
+    value: dispose,
+    configurable: true,
+  });
+  return resource;
+}
+
+/**
+ * Set while the `open()` / `create()` helpers create a page or context, which
+ * they track themselves, and while `browser.newPage()` creates the context of
+ * its page, so the auto-tracking `browser.newPage()` / `browser.newContext()`
+ * leave it alone. Worker-scoped helpers would otherwise hand the test's
+ * auto-tracking and video to the worker.
+ */
+const selfTracked = new AsyncLocalStorage<true>();
+
+/**
+ * Build the fixture object for a page tracker. `release` is called with every
+ * page it opens, so the worker trackers can take pages away from the test.
+ * Pages opened in a new context are recorded by `videos`, if given.
+ */
+function createExtraPages(
+  tracker: PageTracker,
+  browser: Browser,
+  release: (page: Page) => void = () => {},
+  videos?: VideoRecorder
+): ExtraPages {
+  const push = (...args: (Page | TrackOptions)[]): Page[] => {
+    const last = args[args.length - 1];
+    // Pages have methods, options are a plain object
+    if (last && typeof (last as Page).url !== 'function') {
+      const pages = args.slice(0, -1) as Page[];
+      tracker.push(pages, last as TrackOptions);
+      return pages;
+    }
+    tracker.push(args as Page[]);
+    return args as Page[];
+  };
+
+  const open = async (url?: string, options: OpenPageOptions = {}) => {
+    const { context, browser: target = browser, goto, ...labels } = options;
+    const withVideo = context ? undefined : videos?.withVideo({});
+    const page = context
+      ? await context.newPage()
+      : await selfTracked.run(true, () => target.newPage(withVideo));
+    if (!context) pageContexts.add(page.context());
+    if (withVideo) videos?.record(page.context());
+    release(page);
+    try {
+      tracker.push([page], labels);
+    } catch (error) {
+      // Name already in use or over budget, don't leave the page behind
+      await page.close();
+      throw error;
+    }
+    disposeThrough(page, () =>
+      tracker.pages.includes(page) ? tracker.dispose([page]) : page.close()
+    );
+    if (url !== undefined) {
+      await page.goto(url, goto);
+    }
+    return page;
+  };
+
+  return {
+    push: (...args: (Page | TrackOptions)[]) => {
+      push(...args);
+    },
+    get: name => tracker.get(name),
+    byTag: tag => tracker.byTag(tag),
+    open,
+    scope: () => {
+      const owned = new Set<Page>();
+      return {
+        push: (...args: (Page | TrackOptions)[]) => {
+          push(...args).forEach(page => owned.add(page));
+        },
+        open: async (url, options) => {
+          const page = await open(url, options);
+          owned.add(page);
+          return page;
+        },
+        get pages() {
+          return tracker.pages.filter(page => owned.has(page));
+        },
+        [Symbol.asyncDispose]: () => tracker.dispose([...owned]),
+      };
+    },
+    get names() {
+      return tracker.names;
+    },
+    get length() {
+      return tracker.length;
+    },
+    remove: page => tracker.remove(page),
+    closeAll: () => tracker.closeAll(),
+    get pages() {
+      return tracker.pages;
+    },
+  };
+}
+
+function createExtraBrowsers(tracker: BrowserTracker): ExtraBrowsers {
+  return {
+    push: (...browsers) => tracker.push(...browsers),
+    get length() {
+      return tracker.length;
+    },
+    remove: browser => tracker.remove(browser),
+    closeAll: () => tracker.closeAll(),
+    get browsers() {
+      return tracker.browsers;
+    },
+  };
+}
+
+/** BrowserType methods patched by `autoTrackBrowsers` */
+const BROWSER_FACTORIES = ['launch', 'connect', 'connectOverCDP'] as const;
+
+/** Wrap a browser factory so every browser it resolves is tracked */
+function trackBrowsers(
+  factory: (...args: never[]) => Promise<Browser>,
+  tracker: BrowserTracker
+): (...args: never[]) => Promise<Browser> {
+  return async (...args) => {
+    const browser = await factory(...args);
+    tracker.push(browser);
+    return browser;
+  };
+}
+
+/** Build the fixture object for a context tracker, see `createExtraPages()` */
+function createExtraContexts(
+  tracker: ContextTracker,
+  browser: Browser,
+  personas: Record<string, Persona>,
+  userDataDirs: UserDataDirs,
+  release: (context: BrowserContext) => void = () => {},
+  videos?: VideoRecorder
+): ExtraContexts {
+  const track = (context: BrowserContext) => {
+    tracker.push(context);
+    return disposeThrough(context, () =>
+      tracker.contexts.includes(context)
+        ? tracker.dispose([context])
+        : context.close()
+    );
+  };
+
+  const create = async (options: CreateContextOptions = {}) => {
+    const { browser: target = browser, ...contextOptions } = options;
+    const withVideo = videos?.withVideo(contextOptions);
+    const context = await selfTracked.run(true, () =>
+      target.newContext(withVideo ?? contextOptions)
+    );
+    if (withVideo) videos?.record(context);
+    release(context);
+    return track(context);
+  };
+
+  // Calls for the same persona wait on each other, so they share a context
+  const sessions = new Map<string, Promise<PersonaSession>>();
+  const startSession = async (name: string): Promise<PersonaSession> => {
+    const previous = await sessions.get(name)?.catch(() => undefined);
+    if (previous && tracker.contexts.includes(previous.context)) {
+      return previous.page.isClosed()
+        ? { context: previous.context, page: await previous.context.newPage() }
+        : previous;
+    }
+
+    const persona = personas[name];
+    if (persona === undefined) {
+      const known = Object.keys(personas);
+      throw new Error(
+        `[pageman] Unknown persona "${name}", ` +
+          (known.length > 0
+            ? `expected one of: ${known.join(', ')}`
+            : 'no personas are configured in pageManOptions.personas')
+      );
+    }
+    const context = await create(
+      typeof persona === 'string' ? { storageState: persona } : persona
+    );
+    return { context, page: await context.newPage() };
+  };
+
+  return {
+    push: (...contexts) => tracker.push(...contexts),
+    create,
+    as: name => {
+      const session = startSession(name);
+      sessions.set(name, session);
+      return session;
+    },
+    launchPersistent: async (browserType, options = {}) =>
+      track(await userDataDirs.launch(browserType, options)),
+    get length() {
+      return tracker.length;
+    },
+    remove: context => tracker.remove(context),
+    closeAll: () => tracker.closeAll(),
+    get contexts() {
+      return tracker.contexts;
+    },
+  };
+}
+
+// ── Fixtures ───────────────────────────────────────────────────────
+
+/** Whether Playwright is creating the default context fixture */
+interface DefaultContextState {
+  creating: boolean;
+}
+
+export const test = base.extend<
+  {
+    extraPages: ExtraPages;
+    extraContexts: ExtraContexts;
+    extraBrowsers: ExtraBrowsers;
+    _resolvedPageManOptions: Required<PageManOptions>;
+    _testScope: TestScope;
+    _logger: Logger;
+    _hookRunner: HookRunner;
+    _cleanupStack: CleanupStack;
+    _cleanupRecorder: CleanupRecorder;
+    _leakDetector: LeakDetector;
+    _videoRecorder: VideoRecorder;
+    _pageTracker: PageTracker;
+    _contextTracker: ContextTracker;
+    _pageCapture: void;
+    _autoTrackSetup: void;
+    _defaultContextState: DefaultContextState;
+    _creatingDefaultContext: void;
+  },
+  {
+    workerExtraPages: ExtraPages;
+    workerExtraContexts: ExtraContexts;
+    _workerPageManOptions: Required<PageManOptions>;
+    _workerCleanupStack: CleanupStack;
+    _workerPageTracker: PageTracker;
+    _workerContextTracker: ContextTracker;
+    _workerAccessors: void;
+  }
+>({
+  // Option fixture so test.use({ pageManOptions }) works at file and
+  // describe level, not only in the project config. The key is already
+  // declared on PlaywrightTestOptions above, whose typings do not accept
+  // the `option` flag, hence the cast.
+  pageManOptions: [{}, { scope: 'test', option: true } as { scope: 'test' }],
+
+  _resolvedPageManOptions: async ({ pageManOptions }, use, testInfo) => {
+    await use(resolveOptions(testInfo, pageManOptions ?? {}));
+  },
+
+  // Torn down after everything that logs, so the `attachment` sink covers the
+  // whole cleanup
+  _logger: async ({ _resolvedPageManOptions: options }, use, testInfo) => {
+    const logger = new Logger(options, testInfo);
+    await use(logger);
+    await logger.flush();
+  },
+
+  // Which test the global accessors resolve to, see testScopes
+  // eslint-disable-next-line no-empty-pattern -- Playwright requires a destructuring pattern
+  _testScope: async ({}, use, testInfo) => {
+    const scope: TestScope = {
+      title: testInfo.titlePath.join(' › '),
+      tornDown: false,
+    };
+    runningScope = scope;
+    const unbind = bindToScope(testInfo, scope);
+    await use(scope);
+    unbind();
+    if (runningScope === scope) runningScope = undefined;
+    // Work started by the test keeps this scope, so late access names it
+    scope.tornDown = true;
+  },
+
+  _hookRunner: async (
+    { _resolvedPageManOptions: options, _logger: logger, _testScope: scope },
+    use,
+    testInfo
+  ) => {
+    await use(new HookRunner(options, testInfo, logger, scope));
+  },
+
+  _cleanupStack: async (
+    { _resolvedPageManOptions: options, _logger: logger },
+    use
+  ) => {
+    await use(new CleanupStack(options, logger));
+  },
+
+  // Torn down after the trackers and the leak detector, so the attached
+  // report covers every close and leak of the test
+  _cleanupRecorder: async (
+    { _resolvedPageManOptions: options },
+    use,
+    testInfo
+  ) => {
+    const recorder = new CleanupRecorder();
+    await use(recorder);
+    if (options.cleanupReport) {
+      await recorder.attach(testInfo, options);
+    }
+  },
+
+  // Every other pageman fixture depends on this one (through _pageTracker),
+  // so its teardown runs last, once all tracked and default resources are
+  // closed
+  _leakDetector: async (
+    {
+      _resolvedPageManOptions: options,
+      browser,
+      _cleanupRecorder: recorder,
+      _logger: logger,
+      _workerPageTracker: workerPages,
+      _workerContextTracker: workerContexts,
+    },
+    use,
+    testInfo
+  ) => {
+    const detector = new LeakDetector(
+      browser,
+      options,
+      testInfo,
+      recorder,
+      logger
+    );
+    await use(detector);
+    // Resources shared across the worker's tests are not leaks
+    workerPages.pages.forEach(page => detector.ignore(page));
+    workerContexts.contexts.forEach(ctx => detector.ignore(ctx));
+    await detector.check();
+  },
+
+  // The trackers depend on this one, so videos are saved once every tracked
+  // page and context has been closed
+  _videoRecorder: async ({ video, _logger: logger }, use, testInfo) => {
+    const videos = new VideoRecorder(video, testInfo, logger);
+    await use(videos);
+    await videos.finish();
+  },
+
+  _pageTracker: async (
+    {
+      _resolvedPageManOptions: options,
+      _cleanupRecorder: recorder,
+      _leakDetector: _,
+      _videoRecorder: _videos,
+      _logger: logger,
+      _hookRunner: hooks,
+      _cleanupStack: stack,
+    },
+    use
+  ) => {
+    await use(new PageTracker(options, recorder, logger, hooks, stack));
+  },
+
+  _contextTracker: async (
+    {
+      _resolvedPageManOptions: options,
+      _cleanupRecorder: recorder,
+      _pageTracker: pages,
+      _logger: logger,
+      _hookRunner: hooks,
+      _cleanupStack: stack,
+    },
+    use
+  ) => {
+    await use(
+      new ContextTracker(options, pages, recorder, logger, hooks, stack)
+    );
+  },
+
+  extraPages: async (
+    {
+      _pageTracker: tracker,
+      _cleanupStack: stack,
+      _testScope: scope,
+      _videoRecorder: videos,
+      extraBrowsers: _browsers,
+      browser,
+    },
+    use
+  ) => {
+    const fixture = createExtraPages(tracker, browser, undefined, videos);
+
+    // Set global accessor
+    scope.extraPages = fixture;
+
+    await use(fixture);
+
+    // Teardown: close every tracked page and context, newest first. The
+    // first of extraPages / extraContexts to be torn down does the work,
+    // after which neither accessor resolves anymore.
+    try {
+      await testScopes.run(scope, () => stack.closeAll());
+    } finally {
+      scope.tornDown = true;
+    }
+  },
+
+  extraContexts: async (
+    {
+      _contextTracker: tracker,
+      _cleanupStack: stack,
+      _resolvedPageManOptions: options,
+      _logger: logger,
+      _testScope: scope,
+      _videoRecorder: videos,
+      extraBrowsers: _browsers,
+      browser,
+    },
+    use,
+    testInfo
+  ) => {
+    const userDataDirs = new UserDataDirs(logger);
+    const fixture = createExtraContexts(
+      tracker,
+      browser,
+      options.personas,
+      userDataDirs,
+      undefined,
+      videos
+    );
+
+    // Set global accessor
+    scope.extraContexts = fixture;
+
+    await use(fixture);
+
+    // Teardown: see extraPages. User data dirs go once their contexts closed
+    try {
+      await testScopes.run(scope, () => stack.closeAll());
+    } finally {
+      scope.tornDown = true;
+      await userDataDirs.removeAll(
+        options.keepUserDataDir === 'on-failure' && testFailed(testInfo)
+      );
+    }
+  },
+
+  // Depends on the browser fixture so that it is launched before launch() is
+  // patched, and never tracked. extraPages / extraContexts depend on this
+  // fixture, so tracked browsers close after their pages and contexts.
+  extraBrowsers: async (
+    {
+      _resolvedPageManOptions: options,
+      _logger: logger,
+      _testScope: scope,
+      playwright,
+      browser: _browser,
+    },
+    use
+  ) => {
+    const tracker = new BrowserTracker(options, logger);
+    const fixture = createExtraBrowsers(tracker);
+    scope.extraBrowsers = fixture;
+
+    const restore: (() => void)[] = [];
+    if (options.autoTrackBrowsers) {
+      for (const type of [
+        playwright.chromium,
+        playwright.firefox,
+        playwright.webkit,
+      ]) {
+        for (const method of BROWSER_FACTORIES) {
+          const original = type[method];
+          Object.assign(type, {
+            [method]: trackBrowsers(
+              original.bind(type) as (...args: never[]) => Promise<Browser>,
+              tracker
+            ),
+          });
+          restore.push(() => Object.assign(type, { [method]: original }));
+        }
+      }
+    }
+
+    await use(fixture);
+
+    for (const undo of restore) undo();
+    await testScopes.run(scope, () => tracker.closeAll());
+  },
+
+  // eslint-disable-next-line no-empty-pattern -- Playwright requires a destructuring pattern
+  _defaultContextState: async ({}, use) => {
+    await use({ creating: false });
+  },
+
+  // Set up right before Playwright's default context fixture, see context
+  _creatingDefaultContext: async ({ _defaultContextState: state }, use) => {
+    state.creating = true;
+    await use();
+  },
+
+  // The default context fixture is owned by Playwright and is never tracked.
+  // Its dependencies are set up in order, so the patched browser.newContext()
+  // sees state.creating only while Playwright creates this context.
+  // When autoTrackDefaultContext is enabled, follow pages opened inside it.
+  context: async (
+    {
+      _resolvedPageManOptions: options,
+      _creatingDefaultContext: _creating,
+      context,
+      _defaultContextState: state,
+      _pageTracker: pages,
+      _leakDetector: detector,
+    },
+    use,
+    testInfo
+  ) => {
+    state.creating = false;
+    detector.ignore(context);
+
+    if (options.autoTrackDefaultContext) {
+      const listener = (page: Page) => pages.follow(page);
+      context.on('page', listener);
+
+      await use(context);
+
+      context.off('page', listener);
+      // Playwright closes the default context before _pageCapture runs
+      await pages.capture(testInfo, page => page.context() === context);
+    } else {
+      await use(context);
+    }
+  },
+
+  // The default page fixture is owned by Playwright and is never tracked,
+  // even when it was picked up by the default context listener
+  page: async ({ page, _pageTracker: pages }, use) => {
+    pages.remove(page);
+    await use(page);
   },
 
-  // Auto-fixture: when autoTrack is enabled, monkey-patch browser.newPage
-  // to automatically push created pages into extraPages
+  // Auto-fixture: capture tracked pages per the screenshot option. It depends
+  // on extraPages / extraContexts so it runs before their teardown closes
+  // anything.
+  _pageCapture: [
+    async (
+      { _pageTracker: pages, extraPages: _pages, extraContexts: _contexts },
+      use,
+      testInfo
+    ) => {
+      await use();
+      await pages.capture(testInfo);
+    },
+    { auto: true },
+  ],
+
+  // Auto-fixture: when autoTrack / autoTrackContexts are enabled, monkey-patch
+  // browser.newPage / browser.newContext to automatically push created
+  // pages into extraPages and contexts into extraContexts, recording video
+  // per the project `video` option. Depending on
+  // extraPages / extraContexts also sets up the global accessors and their
+  // teardown for every test.
   _autoTrackSetup: [
-    async ({ browser, extraPages: fixture }, use, testInfo) => {
-      const options = resolveOptions(testInfo);
+    async (
+      {
+        _resolvedPageManOptions: options,
+        browser,
+        _pageTracker: pages,
+        _contextTracker: contexts,
+        _defaultContextState: defaultContext,
+        _videoRecorder: videos,
+        extraPages: _pages,
+        extraContexts: _contexts,
+      },
+      use
+    ) => {
+      const originalNewPage = browser.newPage.bind(browser);
+      const originalNewContext = browser.newContext.bind(browser);
+
+      if (options.autoTrackContexts) {
+        browser.newContext = async (contextOptions?: BrowserContextOptions) => {
+          if (defaultContext.creating || selfTracked.getStore()) {
+            return originalNewContext(contextOptions);
+          }
+          const withVideo = videos.withVideo(contextOptions);
+          const context = await originalNewContext(withVideo ?? contextOptions);
+          if (withVideo) videos.record(context);
+          contexts.track('auto', context);
+          return context;
+        };
+      }
 
       if (options.autoTrack) {
-        const originalNewPage = browser.newPage.bind(browser);
-        browser.newPage = async (...args: any[]) => {
-          const page = await originalNewPage(...args);
-          fixture.push(page);
+        browser.newPage = async (
+          pageOptions?: Parameters<Browser['newPage']>[0]
+        ) => {
+          if (selfTracked.getStore()) {
+            return originalNewPage(pageOptions);
+          }
+          const withVideo = videos.withVideo(pageOptions);
+          // browser.newPage() goes through browser.newContext() internally;
+          // the page owns that context, so only the page is tracked
+          const page = await selfTracked.run(true, () =>
+            originalNewPage(withVideo ?? pageOptions)
+          );
+          pageContexts.add(page.context());
+          if (withVideo) videos.record(page.context());
+          pages.track('auto', page);
           return page;
         };
+      }
 
-        await use();
+      await use();
 
-        // Restore original method
+      // Restore original methods
+      if (options.autoTrack) {
         browser.newPage = originalNewPage;
-      } else {
-        await use();
+      }
+      if (options.autoTrackContexts) {
+        browser.newContext = originalNewContext;
       }
     },
     { auto: true },
   ],
+
+  // Worker-scoped trackers only see the project options, test.use()
+  // overrides are test-scoped. Hooks, screenshots and the cleanup
+  // report all belong to a test, so they are left out.
+  _workerPageManOptions: [
+    // eslint-disable-next-line no-empty-pattern -- Playwright requires a destructuring pattern
+    async ({}, use, workerInfo) => {
+      await use(resolveOptions(workerInfo, {}));
+    },
+    { scope: 'worker' },
+  ],
+
+  _workerCleanupStack: [
+    async ({ _workerPageManOptions: options }, use) => {
+      await use(new CleanupStack(options, new Logger(options)));
+    },
+    { scope: 'worker' },
+  ],
+
+  _workerPageTracker: [
+    async (
+      { _workerPageManOptions: options, _workerCleanupStack: stack },
+      use
+    ) => {
+      const logger = new Logger(options);
+      await use(
+        new PageTracker(
+          options,
+          new CleanupRecorder(),
+          logger,
+          new HookRunner(options, undefined, logger),
+          stack
+        )
+      );
+    },
+    { scope: 'worker' },
+  ],
+
+  _workerContextTracker: [
+    async (
+      {
+        _workerPageManOptions: options,
+        _workerCleanupStack: stack,
+        _workerPageTracker: pages,
+      },
+      use
+    ) => {
+      const logger = new Logger(options);
+      await use(
+        new ContextTracker(
+          options,
+          pages,
+          new CleanupRecorder(),
+          logger,
+          new HookRunner(options, undefined, logger),
+          stack
+        )
+      );
+    },
+    { scope: 'worker' },
+  ],
+
+  workerExtraPages: [
+    async (
+      { _workerPageTracker: tracker, _workerCleanupStack: stack, browser },
+      use
+    ) => {
+      // Pages opened from inside a test must not be auto-tracked by it
+      const fixture = createExtraPages(tracker, browser, page =>
+        liveScope()?.extraPages?.remove(page)
+      );
+      currentWorkerExtraPages = fixture;
+
+      await use(fixture);
+
+      // Worker teardown: close every page and context shared by its tests
+      try {
+        await stack.closeAll();
+      } finally {
+        currentWorkerExtraPages = null;
+      }
+    },
+    { scope: 'worker' },
+  ],
+
+  workerExtraContexts: [
+    async (
+      {
+        _workerContextTracker: tracker,
+        _workerCleanupStack: stack,
+        _workerPageManOptions: options,
+        browser,
+      },
+      use
+    ) => {
+      const userDataDirs = new UserDataDirs(new Logger(options));
+      const fixture = createExtraContexts(
+        tracker,
+        browser,
+        options.personas,
+        userDataDirs,
+        context => liveScope()?.extraContexts?.remove(context)
+      );
+      currentWorkerExtraContexts = fixture;
+
+      await use(fixture);
+
+      // Worker teardown: see workerExtraPages. Workers have no failure to
+      // keep user data dirs for
+      try {
+        await stack.closeAll();
+      } finally {
+        currentWorkerExtraContexts = null;
+        await userDataDirs.removeAll(false);
+      }
+    },
+    { scope: 'worker' },
+  ],
+
+  // Auto worker fixture: sets up the worker global accessors, so beforeAll
+  // hooks and helpers can use them without requesting the fixtures
+  _workerAccessors: [
+    async (
+      { workerExtraPages: _pages, workerExtraContexts: _contexts },
+      use
+    ) => {
+      await use();
+    },
+    { scope: 'worker', auto: true },
+  ],
 });
 
 export { expect } from '@playwright/test';
@@ -0,0 +1,298 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type {
+  FullConfig,
+  Reporter,
+  Suite,
+  TestCase,
+  TestResult,
+} from '@playwright/test/reporter';
+import { CLEANUP_REPORT_NAME } from './cleanup-report.js';
+import type {
+  CleanupEntry,
+  CleanupReport,
+  LeakEntry,
+} from './cleanup-report.js';
+
+// ── Public interfaces ──────────────────────────────────────────────
+
+export interface PageManReporterOptions {
+  /** Write the summary to this file, relative to the config file (default: none) */
+  outputFile?: string;
+  /** Summary file format (default: 'markdown' for `.md` files, else 'json') */
+  format?: 'json' | 'markdown';
+  /** Number of slowest closes to list (default: 5) */
+  slowest?: number;
+  /** Whether to print the summary to stdout at the end of the run (default: true) */
+  printSummary?: boolean;
+}
+
+/** Close outcome counts for one resource type */
+export interface OutcomeCounts {
+  closed: number;
+  alreadyClosed: number;
+  timeouts: number;
+  errors: number;
+}
+
+/** Where a cleanup report came from */
+export interface TestAttempt {
+  /** Test file, relative to the config root dir */
+  file: string;
+  /** Test title path, without the file */
+  title: string;
+  retry: number;
+}
+
+export interface LeakSummary extends TestAttempt {
+  leaks: LeakEntry[];
+}
+
+export interface SlowClose extends TestAttempt {
+  entry: CleanupEntry;
+}
+
+/** Aggregated cleanup data for the whole run, across retries */
+export interface PageManSummary {
+  /** Test attempts (including retries) that attached a cleanup report */
+  attempts: number;
+  pages: OutcomeCounts;
+  contexts: OutcomeCounts;
+  /** Number of leaked pages/contexts per test file */
+  leaksByFile: Record<string, number>;
+  leaks: LeakSummary[];
+  /** Slowest closes, slowest first */
+  slowest: SlowClose[];
+}
+
+// ── Reporter ───────────────────────────────────────────────────────
+
+function emptyCounts(): OutcomeCounts {
+  return { closed: 0, alreadyClosed: 0, timeouts: 0, errors: 0 };
+}
+
+function describeEntry(entry: CleanupEntry): string {
+  if (entry.type === 'context') {
+    return `context (${entry.pageUrls?.length ?? 0} page(s))`;
+  }
+  return entry.name ? `page "${entry.name}" ${entry.url}` : `page ${entry.url}`;
+}
+
+function readReport(result: TestResult): CleanupReport | undefined {
+  const attachment = result.attachments.find(
+    a => a.name === CLEANUP_REPORT_NAME
+  );
+  if (!attachment) return undefined;
+
+  try {
+    const body =
+      attachment.body ??
+      (attachment.path ? fs.readFileSync(attachment.path) : undefined);
+    return body ? (JSON.parse(body.toString()) as CleanupReport) : undefined;
+  } catch {
+    // A missing or malformed attachment must never break the run
+    return undefined;
+  }
+}
+
+/**
+ * Playwright reporter that summarizes pageman's per-test cleanup reports
+ * across the run: close outcomes, leaks by test file and the slowest closes.
+ *
+ * @example
+ * ```ts
+ * // playwright.config.ts
+ * export default defineConfig({
+ *   reporter: [
+ *     ['list'],
+ *     ['playwright-pageman/reporter', { outputFile: 'pageman-summary.md' }],
+ *   ],
+ * });
+ * ```
+ */
+export default class PageManReporter implements Reporter {
+  private options: PageManReporterOptions &
+    Required<Pick<PageManReporterOptions, 'format' | 'slowest'>>;
+  private rootDir = process.cwd();
+  private configDir = process.cwd();
+  private summary: PageManSummary = {
+    attempts: 0,
+    pages: emptyCounts(),
+    contexts: emptyCounts(),
+    leaksByFile: {},
+    leaks: [],
+    slowest: [],
+  };
+  private closes: SlowClose[] = [];
+
+  constructor(options: PageManReporterOptions = {}) {
+    const format =
+      options.format ??
+      (options.outputFile && /\.md$/i.test(options.outputFile)
+        ? 'markdown'
+        : 'json');
+    this.options = {
+      slowest: 5,
+      printSummary: true,
+      ...options,
+      format,
+    };
+  }
+
+  printsToStdio(): boolean {
+    // Only a summary is printed, keep Playwright's default terminal reporter
+    return false;
+  }
+
+  onBegin(config: FullConfig, _suite: Suite): void {
+    this.rootDir = config.rootDir;
+    this.configDir = config.configFile
+      ? path.dirname(config.configFile)
+      : config.rootDir;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const report = readReport(result);
+    if (!report) return;
+
+    const attempt: TestAttempt = {
+      file: path.relative(this.rootDir, test.location.file),
+      title: test.titlePath().slice(3).join(' › '),
+      retry: result.retry,
+    };
+
+    this.summary.attempts++;
+    for (const entry of report.entries) {
+      const counts =
+        entry.type === 'page' ? this.summary.pages : this.summary.contexts;
+      if (entry.outcome === 'closed') counts.closed++;
+      else if (entry.outcome === 'already-closed') counts.alreadyClosed++;
+      else if (entry.outcome === 'timeout') counts.timeouts++;
+      else counts.errors++;
+
+      if (entry.outcome !== 'already-closed') {
+        this.closes.push({ ...attempt, entry });
+      }
+    }
+
+    if (report.leaks.length > 0) {
+      this.summary.leaks.push({ ...attempt, leaks: report.leaks });
+      this.summary.leaksByFile[attempt.file] =
+        (this.summary.leaksByFile[attempt.file] ?? 0) + report.leaks.length;
+    }
+  }
+
+  async onEnd(): Promise<void> {
+    this.summary.slowest = [...this.closes]
+      .sort((a, b) => b.entry.closeDurationMs - a.entry.closeDurationMs)
+      .slice(0, this.options.slowest);
+
+    if (this.options.printSummary && this.summary.attempts > 0) {
+      process.stdout.write(this.formatText());
+    }
+
+    if (this.options.outputFile) {
+      const file = path.resolve(this.configDir, this.options.outputFile);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(
+        file,
+        this.options.format === 'markdown'
+          ? this.formatMarkdown()
+          : JSON.stringify(this.summary, null, 2)
+      );
+    }
+  }
+
+  /** The aggregated summary, complete once `onEnd()` has run */
+  getSummary(): PageManSummary {
+    return this.summary;
+  }
+
+  private formatText(): string {
+    const { attempts, pages, contexts, leaksByFile, slowest } = this.summary;
+    const counts = (c: OutcomeCounts) =>
+      `${c.closed} closed, ${c.alreadyClosed} already closed, ` +
+      `${c.timeouts} timed out, ${c.errors} failed`;
+    const leakFiles = Object.entries(leaksByFile);
+    const leakCount = leakFiles.reduce((sum, [, n]) => sum + n, 0);
+
+    const lines = [
+      `[pageman] Cleanup summary for ${attempts} test run(s):`,
+      `  pages: ${counts(pages)}`,
+      `  contexts: ${counts(contexts)}`,
+      `  leaks: ${leakCount} in ${leakFiles.length} file(s)`,
+      ...leakFiles.map(([file, n]) => `    ${file}: ${n}`),
+    ];
+    if (slowest.length > 0) {
+      lines.push('  slowest closes:');
+      for (const { file, title, retry, entry } of slowest) {
+        lines.push(
+          `    ${entry.closeDurationMs}ms ${describeEntry(entry)} — ` +
+            `${file} › ${title}${retry > 0 ? ` (retry ${retry})` : ''}`
+        );
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private formatMarkdown(): string {
+    const { attempts, pages, contexts, leaks, leaksByFile, slowest } =
+      this.summary;
+    const row = (label: string, key: keyof OutcomeCounts) =>
+      `| ${label} | ${pages[key]} | ${contexts[key]} |`;
+
+    const lines = [
+      '# pageman cleanup summary',
+      '',
+      `${attempts} test run(s) attached a cleanup report.`,
+      '',
+      '| Outcome | Pages | Contexts |',
+      '| --- | --- | --- |',
+      row('Closed', 'closed'),
+      row('Already closed', 'alreadyClosed'),
+      row('Timed out', 'timeouts'),
+      row('Failed', 'errors'),
+      '',
+      '## Leaks by test file',
+      '',
+    ];
+
+    if (leaks.length === 0) {
+      lines.push('No leaks detected.');
+    } else {
+      lines.push('| File | Leaks |', '| --- | --- |');
+      for (const [file, n] of Object.entries(leaksByFile)) {
+        lines.push(`| ${file} | ${n} |`);
+      }
+      lines.push('');
+      for (const { file, title, retry, leaks: entries } of leaks) {
+        lines.push(`- ${file} › ${title} (retry ${retry})`);
+        for (const leak of entries) {
+          lines.push(
+            leak.type === 'page'
+              ? `  - page ${leak.url}`
+              : `  - context with ${leak.pageUrls?.length ?? 0} page(s)`
+          );
+        }
+      }
+    }
+
+    lines.push('', '## Slowest closes', '');
+    if (slowest.length === 0) {
+      lines.push('Nothing was closed.');
+    } else {
+      lines.push(
+        '| Duration | Resource | Outcome | Test |',
+        '| --- | --- | --- | --- |'
+      );
+      for (const { file, title, retry, entry } of slowest) {
+        lines.push(
+          `| ${entry.closeDurationMs}ms | ${describeEntry(entry)} | ` +
+            `${entry.outcome} | ${file} › ${title} (retry ${retry}) |`
+        );
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
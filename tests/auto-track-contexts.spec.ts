@@ -0,0 +1,166 @@
+import { test, expect } from '../src/index';
+import type { BrowserContext, Page, PageManOptions } from '../src/index';
+
+test.describe('AutoTrackContexts - Browser Proxy', () => {
+  test('should auto-track contexts created via browser.newContext()', async ({
+    browser,
+    extraContexts,
+  }) => {
+    const options = (test.info().project.use as any)?.pageManOptions;
+    test.skip(!options?.autoTrackContexts, 'Requires autoTrackContexts: true');
+
+    const context = await browser.newContext();
+
+    expect(extraContexts.length).toBe(1);
+    expect(extraContexts.contexts[0]).toBe(context);
+  });
+
+  test('should auto-track multiple contexts', async ({
+    browser,
+    extraContexts,
+  }) => {
+    const options = (test.info().project.use as any)?.pageManOptions;
+    test.skip(!options?.autoTrackContexts, 'Requires autoTrackContexts: true');
+
+    const ctx1 = await browser.newContext();
+    const ctx2 = await browser.newContext();
+
+    expect(extraContexts.length).toBe(2);
+    expect(extraContexts.contexts).toContain(ctx1);
+    expect(extraContexts.contexts).toContain(ctx2);
+  });
+
+  test('should deduplicate a manual push of an auto-tracked context', async ({
+    browser,
+    extraContexts,
+  }) => {
+    const options = (test.info().project.use as any)?.pageManOptions;
+    test.skip(!options?.autoTrackContexts, 'Requires autoTrackContexts: true');
+
+    const context = await browser.newContext();
+    extraContexts.push(context);
+
+    expect(extraContexts.length).toBe(1);
+  });
+
+  test('should close auto-tracked contexts and their pages on closeAll', async ({
+    browser,
+    extraContexts,
+  }) => {
+    const options = (test.info().project.use as any)?.pageManOptions;
+    test.skip(!options?.autoTrackContexts, 'Requires autoTrackContexts: true');
+
+    const context = await browser.newContext();
+    const page = await context.newPage();
+
+    await extraContexts.closeAll();
+
+    expect(extraContexts.length).toBe(0);
+    expect(page.isClosed()).toBe(true);
+  });
+
+  test('should track the page, not its owned context, for browser.newPage()', async ({
+    browser,
+    extraPages,
+    extraContexts,
+  }) => {
+    const options = (test.info().project.use as any)?.pageManOptions;
+    test.skip(!options?.autoTrackContexts, 'Requires autoTrackContexts: true');
+    test.skip(!options?.autoTrack, 'Requires autoTrack: true');
+
+    const page = await browser.newPage();
+
+    expect(extraPages.pages).toContain(page);
+    expect(extraContexts.contexts).not.toContain(page.context());
+  });
+
+  test('default context fixture should NOT be auto-tracked', async ({
+    context,
+    extraContexts,
+  }) => {
+    const options = (test.info().project.use as any)?.pageManOptions;
+    test.skip(!options?.autoTrackContexts, 'Requires autoTrackContexts: true');
+
+    expect(extraContexts.length).toBe(0);
+    expect(extraContexts.contexts).not.toContain(context);
+  });
+
+  test('removed context should not be closed on teardown', async ({
+    browser,
+    extraContexts,
+  }) => {
+    const options = (test.info().project.use as any)?.pageManOptions;
+    test.skip(!options?.autoTrackContexts, 'Requires autoTrackContexts: true');
+
+    const context = await browser.newContext();
+    expect(extraContexts.remove(context)).toBe(true);
+    expect(extraContexts.length).toBe(0);
+
+    await context.close();
+  });
+});
+
+test.describe('AutoTrackContexts - Default Context', () => {
+  const tracked: (Page | BrowserContext)[] = [];
+
+  test.use({
+    pageManOptions: {
+      autoTrackContexts: true,
+      maxContexts: 1,
+      budgetPolicy: 'fail',
+      onTrack: resource => {
+        tracked.push(resource);
+      },
+    } as PageManOptions,
+  });
+
+  test('should skip the default context before tracking it', async ({
+    browser,
+    context,
+    extraContexts,
+  }) => {
+    // Would cross maxContexts if the default context had been counted
+    const created = await browser.newContext();
+
+    expect(extraContexts.contexts).toEqual([created]);
+    expect(tracked).toContain(created);
+    expect(tracked).not.toContain(context);
+  });
+});
+
+test.describe('AutoTrackContexts - Owned Contexts', () => {
+  const tracked: (Page | BrowserContext)[] = [];
+
+  test.use({
+    pageManOptions: {
+      autoTrack: true,
+      autoTrackContexts: true,
+      maxContexts: 1,
+      budgetPolicy: 'fail',
+      onTrack: resource => {
+        tracked.push(resource);
+      },
+    } as PageManOptions,
+  });
+
+  test('should not track the contexts of new pages and worker contexts', async ({
+    browser,
+    extraPages,
+    extraContexts,
+    workerExtraContexts,
+  }) => {
+    const created = await browser.newContext();
+    // Each would cross maxContexts if its context had been tracked
+    const page = await browser.newPage();
+    const opened = await extraPages.open();
+    const shared = await workerExtraContexts.create();
+
+    expect(extraContexts.contexts).toEqual([created]);
+    expect(extraPages.pages).toEqual([page, opened]);
+    expect(tracked).not.toContain(page.context());
+    expect(tracked).not.toContain(opened.context());
+    expect(tracked).not.toContain(shared);
+
+    await shared.close();
+  });
+});
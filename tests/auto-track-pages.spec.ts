@@ -0,0 +1,185 @@
+import { test, expect } from '../src/index';
+
+test.describe('AutoTrack - Context Pages and Popups', () => {
+  test.describe('autoTrackContextPages', () => {
+    test('should auto-track pages opened in a tracked context', async ({
+      browser,
+      extraPages,
+      extraContexts,
+    }) => {
+      const options = (test.info().project.use as any)?.pageManOptions;
+      test.skip(
+        !options?.autoTrackContextPages,
+        'Requires autoTrackContextPages: true'
+      );
+
+      const context = await browser.newContext();
+      extraContexts.push(context);
+
+      const page1 = await context.newPage();
+      const page2 = await context.newPage();
+
+      expect(extraPages.length).toBe(2);
+      expect(extraPages.pages).toContain(page1);
+      expect(extraPages.pages).toContain(page2);
+    });
+
+    test('should NOT track pages opened in an untracked context', async ({
+      browser,
+      extraPages,
+    }) => {
+      const options = (test.info().project.use as any)?.pageManOptions;
+      test.skip(
+        !options?.autoTrackContextPages,
+        'Requires autoTrackContextPages: true'
+      );
+
+      const context = await browser.newContext();
+      await context.newPage();
+
+      expect(extraPages.length).toBe(0);
+
+      await context.close();
+    });
+
+    test('should stop tracking pages after the context is removed', async ({
+      browser,
+      extraPages,
+      extraContexts,
+    }) => {
+      const options = (test.info().project.use as any)?.pageManOptions;
+      test.skip(
+        !options?.autoTrackContextPages,
+        'Requires autoTrackContextPages: true'
+      );
+
+      const context = await browser.newContext();
+      extraContexts.push(context);
+      extraContexts.remove(context);
+
+      await context.newPage();
+      expect(extraPages.length).toBe(0);
+
+      await context.close();
+    });
+  });
+
+  test.describe('autoTrackPopups', () => {
+    test('should auto-track popups opened by a tracked page', async ({
+      browser,
+      extraPages,
+    }) => {
+      const options = (test.info().project.use as any)?.pageManOptions;
+      test.skip(!options?.autoTrackPopups, 'Requires autoTrackPopups: true');
+
+      const context = await browser.newContext();
+      const opener = await context.newPage();
+      extraPages.push(opener);
+
+      const [popup] = await Promise.all([
+        opener.waitForEvent('popup'),
+        opener.evaluate(() => window.open('about:blank')),
+      ]);
+
+      expect(extraPages.pages).toContain(popup);
+
+      await context.close();
+    });
+
+    test('should auto-track nested popups', async ({ browser, extraPages }) => {
+      const options = (test.info().project.use as any)?.pageManOptions;
+      test.skip(!options?.autoTrackPopups, 'Requires autoTrackPopups: true');
+
+      const context = await browser.newContext();
+      const opener = await context.newPage();
+      extraPages.push(opener);
+
+      const [popup] = await Promise.all([
+        opener.waitForEvent('popup'),
+        opener.evaluate(() => window.open('about:blank')),
+      ]);
+      const [nested] = await Promise.all([
+        popup.waitForEvent('popup'),
+        popup.evaluate(() => window.open('about:blank')),
+      ]);
+
+      expect(extraPages.pages).toContain(popup);
+      expect(extraPages.pages).toContain(nested);
+
+      await context.close();
+    });
+
+    test('should NOT track popups of a removed page', async ({
+      browser,
+      extraPages,
+    }) => {
+      const options = (test.info().project.use as any)?.pageManOptions;
+      test.skip(!options?.autoTrackPopups, 'Requires autoTrackPopups: true');
+
+      const context = await browser.newContext();
+      const opener = await context.newPage();
+      extraPages.push(opener);
+      extraPages.remove(opener);
+
+      const [popup] = await Promise.all([
+        opener.waitForEvent('popup'),
+        opener.evaluate(() => window.open('about:blank')),
+      ]);
+
+      expect(extraPages.pages).not.toContain(popup);
+
+      await context.close();
+    });
+  });
+
+  test.describe('autoTrackDefaultContext', () => {
+    test('should auto-track pages opened in the default context', async ({
+      context,
+      extraPages,
+    }) => {
+      const options = (test.info().project.use as any)?.pageManOptions;
+      test.skip(
+        !options?.autoTrackDefaultContext,
+        'Requires autoTrackDefaultContext: true'
+      );
+
+      const page = await context.newPage();
+
+      expect(extraPages.length).toBe(1);
+      expect(extraPages.pages[0]).toBe(page);
+    });
+
+    test('default page fixture should NOT be auto-tracked', async ({
+      page,
+      extraPages,
+    }) => {
+      const options = (test.info().project.use as any)?.pageManOptions;
+      test.skip(
+        !options?.autoTrackDefaultContext,
+        'Requires autoTrackDefaultContext: true'
+      );
+
+      expect(extraPages.pages).not.toContain(page);
+    });
+
+    test('should auto-track popups of the default page', async ({
+      page,
+      extraPages,
+    }) => {
+      const options = (test.info().project.use as any)?.pageManOptions;
+      test.skip(
+        !options?.autoTrackDefaultContext,
+        'Requires autoTrackDefaultContext: true'
+      );
+
+      const [popup] = await Promise.all([
+        page.waitForEvent('popup'),
+        page.evaluate(() => window.open('about:blank')),
+      ]);
+
+      expect(extraPages.length).toBe(1);
+      expect(extraPages.pages[0]).toBe(popup);
+      expect(page.isClosed()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { test, expect, CLEANUP_REPORT_NAME } from '../src/index';
+import type {
+  CleanupReport,
+  PageManLogger,
+  PageManOptions,
+  TestInfo,
+} from '../src/index';
+
+const warnings: string[] = [];
+const logger: PageManLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: message => warnings.push(message),
+  error: () => {},
+};
+
+test.describe('PageMan - Page Budget', () => {
+  test.describe("budgetPolicy: 'warn'", () => {
+    test.use({
+      pageManOptions: {
+        autoTrack: false,
+        logger,
+        maxPages: 2,
+        budgetPolicy: 'warn',
+      } as PageManOptions,
+    });
+
+    test('should warn once with the tracked URLs', async ({
+      context,
+      extraPages,
+    }) => {
+      warnings.length = 0;
+      for (let i = 1; i <= 4; i++) {
+        await extraPages.open(`data:text/html,page-${i}`, { context });
+      }
+
+      expect(extraPages.length).toBe(4);
+      expect(warnings).toEqual([
+        'maxPages (2) exceeded, 3 are open:\n' +
+          '  - page data:text/html,page-1\n' +
+          '  - page data:text/html,page-2\n' +
+          // Checked when tracked, before open() navigates it
+          '  - page about:blank',
+      ]);
+    });
+
+    test('should not count closed pages', async ({ context, extraPages }) => {
+      warnings.length = 0;
+      const first = await extraPages.open(undefined, { context });
+      await extraPages.open(undefined, { context });
+      await first.close();
+      await extraPages.open(undefined, { context });
+
+      expect(warnings).toEqual([]);
+    });
+  });
+
+  test.describe("budgetPolicy: 'close-oldest'", () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        autoTrack: false,
+        maxPages: 2,
+        budgetPolicy: 'close-oldest',
+      } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+
+    test('closes the oldest page', async ({ context, extraPages }) => {
+      previous = test.info();
+
+      const oldest = await extraPages.open('data:text/html,oldest', {
+        context,
+      });
+      const middle = await extraPages.open(undefined, { context });
+      const newest = await extraPages.open(undefined, { context });
+
+      expect(extraPages.pages).toEqual([middle, newest]);
+      await expect.poll(() => oldest.isClosed()).toBe(true);
+    });
+
+    test.afterAll('should record the early close', async () => {
+      const attachment = previous!.attachments.find(
+        a => a.name === CLEANUP_REPORT_NAME
+      );
+      const report: CleanupReport = JSON.parse(attachment!.body!.toString());
+      expect(report.entries[0]).toMatchObject({
+        type: 'page',
+        url: 'data:text/html,oldest',
+        outcome: 'closed',
+      });
+      expect(report.entries).toHaveLength(3);
+    });
+  });
+
+  test.describe("budgetPolicy: 'fail'", () => {
+    test.use({
+      pageManOptions: {
+        autoTrack: false,
+        maxContexts: 1,
+        budgetPolicy: 'fail',
+      } as PageManOptions,
+    });
+
+    test('should throw listing the tracked contexts', async ({
+      browser,
+      extraContexts,
+    }) => {
+      const first = await extraContexts.create();
+      await first.newPage();
+      const second = await browser.newContext();
+
+      expect(() => extraContexts.push(second)).toThrow(
+        '[pageman] maxContexts (1) exceeded, 2 are open:\n' +
+          '  - context with 1 page(s): about:blank\n' +
+          '  - context with no pages'
+      );
+      // Still cleaned up at teardown
+      expect(extraContexts.contexts).toEqual([first, second]);
+    });
+  });
+});
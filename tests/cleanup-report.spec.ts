@@ -0,0 +1,160 @@
+import { test, expect, CLEANUP_REPORT_NAME } from '../src/index';
+import type { CleanupReport, PageManOptions, TestInfo } from '../src/index';
+
+function readReport(testInfo: TestInfo): CleanupReport | undefined {
+  const attachment = testInfo.attachments.find(
+    a => a.name === CLEANUP_REPORT_NAME
+  );
+  return attachment?.body ? JSON.parse(attachment.body.toString()) : undefined;
+}
+
+test.describe('PageMan - Cleanup Report', () => {
+  test.describe('Closed resources', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        autoTrack: true,
+        autoTrackContexts: false,
+      } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+
+    test('tracks pages and contexts', async ({
+      browser,
+      extraPages,
+      extraContexts,
+    }) => {
+      previous = test.info();
+
+      const context = await browser.newContext();
+      extraContexts.push(context);
+
+      const manual = await context.newPage();
+      await manual.goto('data:text/html,manual');
+      extraPages.push(manual);
+
+      // Auto-tracked through browser.newPage()
+      await browser.newPage();
+
+      const closedEarly = await context.newPage();
+      extraPages.push(closedEarly);
+      await closedEarly.close();
+    });
+
+    test.afterAll(
+      'should attach a report listing every tracked resource',
+      async () => {
+        const report = readReport(previous!);
+        expect(report).toBeDefined();
+        expect(report!.titlePath).toContain('tracks pages and contexts');
+        expect(report!.retry).toBe(previous!.retry);
+
+        const pages = report!.entries.filter(e => e.type === 'page');
+        const contexts = report!.entries.filter(e => e.type === 'context');
+        expect(pages).toHaveLength(3);
+        expect(contexts).toHaveLength(1);
+
+        expect(pages).toContainEqual(
+          expect.objectContaining({
+            url: 'data:text/html,manual',
+            source: 'manual',
+            outcome: 'closed',
+          })
+        );
+        expect(pages).toContainEqual(
+          expect.objectContaining({ source: 'auto', outcome: 'closed' })
+        );
+        expect(pages).toContainEqual(
+          expect.objectContaining({
+            source: 'manual',
+            outcome: 'already-closed',
+            closeDurationMs: 0,
+          })
+        );
+        expect(contexts[0]).toMatchObject({ source: 'manual' });
+
+        for (const entry of report!.entries) {
+          expect(entry.lifetimeMs).toBeGreaterThanOrEqual(0);
+          expect(entry.closeDurationMs).toBeGreaterThanOrEqual(0);
+        }
+      }
+    );
+  });
+
+  test.describe('Failed closes and leaks', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        closeTimeout: 200,
+        leakPolicy: 'close',
+        autoTrackContexts: false,
+        // Force-closing would close the context this test wants to leak
+        forceClose: false,
+      } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+
+    test('fails to close tracked pages', async ({ browser, extraPages }) => {
+      previous = test.info();
+
+      const context = await browser.newContext();
+      const failing = await context.newPage();
+      const hanging = await context.newPage();
+
+      failing.close = async () => {
+        throw new Error('Simulated page close error');
+      };
+      hanging.close = async () => {
+        await new Promise(resolve => setTimeout(resolve, 10000));
+      };
+      extraPages.push(failing, hanging);
+
+      // The context leaks and is closed by leakPolicy: 'close'
+    });
+
+    test.afterAll(
+      'should report error and timeout outcomes and leaks',
+      async () => {
+        const report = readReport(previous!);
+        expect(report).toBeDefined();
+        expect(report!.leakPolicy).toBe('close');
+        expect(report!.entries).toContainEqual(
+          expect.objectContaining({
+            outcome: 'error',
+            error: 'Simulated page close error',
+          })
+        );
+        expect(report!.entries).toContainEqual(
+          expect.objectContaining({
+            outcome: 'timeout',
+            error: 'Page close timeout',
+          })
+        );
+        expect(report!.leaks).toEqual([
+          { type: 'context', pageUrls: ['about:blank', 'about:blank'] },
+        ]);
+      }
+    );
+  });
+
+  test.describe('cleanupReport: false', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: { cleanupReport: false } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+
+    test('tracks a page', async ({ browser, extraPages }) => {
+      previous = test.info();
+
+      extraPages.push(await browser.newPage());
+    });
+
+    test.afterAll('should not attach a report', async () => {
+      expect(readReport(previous!)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { test, expect, CLEANUP_REPORT_NAME } from '../src/index';
+import type { CleanupReport, PageManOptions, TestInfo } from '../src/index';
+
+function closeOrder(testInfo: TestInfo): string[] {
+  const attachment = testInfo.attachments.find(
+    a => a.name === CLEANUP_REPORT_NAME
+  );
+  const report: CleanupReport = JSON.parse(attachment!.body!.toString());
+  return report.entries.map(entry =>
+    entry.type === 'page'
+      ? `page ${entry.url} ${entry.outcome}`
+      : `context ${entry.outcome}`
+  );
+}
+
+test.describe('PageMan - Cleanup Stack', () => {
+  test.describe('closeConcurrency: 1', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        closeConcurrency: 1,
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+
+    test('interleaves pages and contexts', async ({
+      browser,
+      extraPages,
+      extraContexts,
+    }) => {
+      previous = test.info();
+
+      const untracked = await browser.newContext();
+      const first = await untracked.newPage();
+      await first.goto('data:text/html,first');
+      extraPages.push(first);
+
+      // Tracked before its context, so the context closes it
+      const owner = await browser.newContext();
+      const owned = await owner.newPage();
+      await owned.goto('data:text/html,owned');
+      extraPages.push(owned);
+      extraContexts.push(owner);
+
+      const last = await untracked.newPage();
+      await last.goto('data:text/html,last');
+      extraPages.push(last);
+    });
+
+    test.afterAll(
+      'should close everything in reverse tracking order',
+      async () => {
+        expect(closeOrder(previous!)).toEqual([
+          'page data:text/html,last closed',
+          'context closed',
+          'page data:text/html,owned already-closed',
+          'page data:text/html,first closed',
+        ]);
+      }
+    );
+  });
+
+  test.describe('Default concurrency', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: { autoTrack: false } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+    let ownedCloseCalled = false;
+
+    test('tracks a page before its context', async ({
+      browser,
+      extraPages,
+      extraContexts,
+    }) => {
+      previous = test.info();
+
+      const owner = await browser.newContext();
+      const owned = await owner.newPage();
+      await owned.goto('data:text/html,owned');
+      const originalClose = owned.close.bind(owned);
+      owned.close = async options => {
+        ownedCloseCalled = true;
+        await originalClose(options);
+      };
+      extraPages.push(owned);
+      extraContexts.push(owner);
+    });
+
+    test.afterAll('should let the context close the page', async () => {
+      expect(ownedCloseCalled).toBe(false);
+      expect(closeOrder(previous!)).toEqual([
+        'context closed',
+        'page data:text/html,owned already-closed',
+      ]);
+    });
+  });
+
+  test.describe('Page tracked after its context', () => {
+    test.describe.configure({ mode: 'default' });
+
+    const beforeClose: string[] = [];
+    let previous: TestInfo | undefined;
+
+    test.use({
+      pageManOptions: {
+        autoTrack: false,
+        beforeClose: (_resource, _testInfo, details) => {
+          beforeClose.push(details.type);
+        },
+      } as PageManOptions,
+    });
+
+    test('opens a page in a created context', async ({
+      extraPages,
+      extraContexts,
+    }) => {
+      previous = test.info();
+
+      const context = await extraContexts.create();
+      await extraPages.open('data:text/html,newer', { context });
+    });
+
+    test.afterAll('should close the page before its context', async () => {
+      expect(closeOrder(previous!)).toEqual([
+        'page data:text/html,newer closed',
+        'context closed',
+      ]);
+      expect(beforeClose).toEqual(['page', 'context']);
+    });
+  });
+
+  test.describe('Explicit closeAll()', () => {
+    test.use({
+      pageManOptions: { autoTrack: false } as PageManOptions,
+    });
+
+    test('should only close resources of its own kind', async ({
+      browser,
+      extraPages,
+      extraContexts,
+    }) => {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      extraContexts.push(context);
+      extraPages.push(page);
+
+      await extraPages.closeAll();
+
+      expect(page.isClosed()).toBe(true);
+      expect(browser.contexts()).toContain(context);
+      expect(extraPages.length).toBe(0);
+      expect(extraContexts.length).toBe(1);
+    });
+  });
+});
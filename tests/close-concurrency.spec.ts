@@ -0,0 +1,148 @@
+import { test, expect } from '../src/index';
+import type { Page, PageManOptions } from '../src/index';
+
+/** Record when each page's close starts and ends */
+function instrument(pages: Page[], events: string[]): void {
+  pages.forEach((page, index) => {
+    const originalClose = page.close.bind(page);
+    page.close = async options => {
+      events.push(`start ${index + 1}`);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await originalClose(options);
+      events.push(`end ${index + 1}`);
+    };
+  });
+}
+
+test.describe('PageMan - Close Concurrency', () => {
+  test.describe('closeConcurrency: 1', () => {
+    test.use({
+      pageManOptions: {
+        closeConcurrency: 1,
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    test('should close pages one at a time, newest first', async ({
+      browser,
+      extraPages,
+    }) => {
+      const context = await browser.newContext();
+      const pages = [
+        await context.newPage(),
+        await context.newPage(),
+        await context.newPage(),
+      ];
+      const events: string[] = [];
+      instrument(pages, events);
+      extraPages.push(...pages);
+
+      await extraPages.closeAll();
+      await context.close();
+
+      expect(events).toEqual([
+        'start 3',
+        'end 3',
+        'start 2',
+        'end 2',
+        'start 1',
+        'end 1',
+      ]);
+    });
+
+    test('should close contexts one at a time, newest first', async ({
+      browser,
+      extraContexts,
+    }) => {
+      const contexts = [await browser.newContext(), await browser.newContext()];
+      const events: string[] = [];
+      contexts.forEach((context, index) => {
+        context.once('close', () => events.push(`closed ${index + 1}`));
+      });
+      extraContexts.push(...contexts);
+
+      await extraContexts.closeAll();
+
+      expect(events).toEqual(['closed 2', 'closed 1']);
+    });
+  });
+
+  test.describe('closeConcurrency: 2', () => {
+    test.use({
+      pageManOptions: {
+        closeConcurrency: 2,
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    test('should close pages in batches, newest first', async ({
+      browser,
+      extraPages,
+    }) => {
+      const context = await browser.newContext();
+      const pages = [
+        await context.newPage(),
+        await context.newPage(),
+        await context.newPage(),
+      ];
+      const events: string[] = [];
+      instrument(pages, events);
+      extraPages.push(...pages);
+
+      await extraPages.closeAll();
+      await context.close();
+
+      expect(events.slice(0, 2)).toEqual(['start 3', 'start 2']);
+      expect(events.slice(2, 4).sort()).toEqual(['end 2', 'end 3']);
+      expect(events.slice(4)).toEqual(['start 1', 'end 1']);
+    });
+  });
+
+  test.describe('Default concurrency', () => {
+    test.use({
+      pageManOptions: { autoTrack: false } as PageManOptions,
+    });
+
+    test('should start closing every page at once', async ({
+      browser,
+      extraPages,
+    }) => {
+      const context = await browser.newContext();
+      const pages = [await context.newPage(), await context.newPage()];
+      const events: string[] = [];
+      instrument(pages, events);
+      extraPages.push(...pages);
+
+      await extraPages.closeAll();
+      await context.close();
+
+      expect(events.slice(0, 2)).toEqual(['start 2', 'start 1']);
+    });
+  });
+
+  test.describe('closeConcurrency: NaN', () => {
+    test.use({
+      pageManOptions: {
+        closeConcurrency: NaN,
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    test('should fall back to the default concurrency', async ({
+      browser,
+      extraPages,
+    }) => {
+      const context = await browser.newContext();
+      const pages = [await context.newPage(), await context.newPage()];
+      const events: string[] = [];
+      instrument(pages, events);
+      extraPages.push(...pages);
+
+      await extraPages.closeAll();
+      await context.close();
+
+      expect(events.slice(0, 2)).toEqual(['start 2', 'start 1']);
+      expect(pages.every(page => page.isClosed())).toBe(true);
+    });
+  });
+});
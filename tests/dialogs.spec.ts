@@ -0,0 +1,114 @@
+import { test, expect } from '../src/index';
+import type { Page, PageManLogger, PageManOptions } from '../src/index';
+
+const warnings: string[] = [];
+const logger: PageManLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: message => warnings.push(message),
+  error: () => {},
+};
+
+/** A page that asks before leaving; Chromium needs a click to prompt */
+async function guardedPage(page: Page): Promise<void> {
+  await page.setContent('<button>edit</button>');
+  await page.evaluate(() => {
+    window.addEventListener('beforeunload', event => {
+      event.preventDefault();
+      event.returnValue = 'Unsaved changes';
+    });
+  });
+  await page.click('button');
+}
+
+test.describe('PageMan - Dialog Policy', () => {
+  test.describe("dialogPolicy: 'accept'", () => {
+    test.use({
+      pageManOptions: {
+        autoTrack: false,
+        logger,
+        dialogPolicy: 'accept',
+      } as PageManOptions,
+    });
+
+    test('should run beforeunload handlers and accept them', async ({
+      context,
+      extraPages,
+    }) => {
+      warnings.length = 0;
+      const page = await extraPages.open(undefined, { context });
+      await guardedPage(page);
+
+      await extraPages.closeAll();
+
+      expect(page.isClosed()).toBe(true);
+      expect(warnings).toEqual([
+        expect.stringMatching(/^accepted beforeunload dialog on page about:/),
+      ]);
+    });
+  });
+
+  test.describe("dialogPolicy: 'dismiss'", () => {
+    test.use({
+      pageManOptions: {
+        autoTrack: false,
+        logger,
+        dialogPolicy: 'dismiss',
+      } as PageManOptions,
+    });
+
+    test('should close without running beforeunload handlers', async ({
+      context,
+      extraPages,
+    }) => {
+      warnings.length = 0;
+      const page = await extraPages.open(undefined, { context });
+      await guardedPage(page);
+
+      await extraPages.closeAll();
+
+      expect(page.isClosed()).toBe(true);
+      expect(warnings).toEqual([]);
+    });
+
+    test('should stop answering dialogs once the close failed', async ({
+      context,
+      extraPages,
+    }) => {
+      const page = await extraPages.open(undefined, { context });
+      const originalClose = page.close.bind(page);
+      page.close = async () => {
+        throw new Error('Simulated page close error');
+      };
+
+      await extraPages.closeAll();
+
+      expect(page.listenerCount('dialog')).toBe(0);
+      page.close = originalClose;
+    });
+  });
+
+  test.describe("dialogPolicy: 'leave'", () => {
+    test.use({
+      pageManOptions: {
+        autoTrack: false,
+        dialogPolicy: 'leave',
+      } as PageManOptions,
+    });
+
+    test('should not register a dialog handler', async ({
+      context,
+      extraPages,
+    }) => {
+      const page = await extraPages.open(undefined, { context });
+      let listeners = -1;
+      page.close = async () => {
+        listeners = page.listenerCount('dialog');
+      };
+
+      await extraPages.closeAll();
+
+      expect(listeners).toBe(0);
+    });
+  });
+});
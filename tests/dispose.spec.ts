@@ -0,0 +1,105 @@
+import { test, expect, CLEANUP_REPORT_NAME } from '../src/index';
+import type {
+  Page,
+  BrowserContext,
+  CleanupReport,
+  PageManOptions,
+  TestInfo,
+} from '../src/index';
+
+test.describe('PageMan - Explicit Resource Management', () => {
+  test.use({
+    pageManOptions: { autoTrack: false } as PageManOptions,
+  });
+
+  test('should close and untrack an opened page on dispose', async ({
+    extraPages,
+  }) => {
+    let disposed: Page;
+    {
+      await using page = await extraPages.open();
+      disposed = page;
+      expect(extraPages.pages).toEqual([page]);
+    }
+
+    expect(disposed.isClosed()).toBe(true);
+    expect(extraPages.length).toBe(0);
+  });
+
+  test('should close and untrack a created context on dispose', async ({
+    extraContexts,
+  }) => {
+    let disposed: BrowserContext;
+    {
+      await using context = await extraContexts.create();
+      disposed = context;
+      await context.newPage();
+    }
+
+    expect(disposed.pages()).toHaveLength(0);
+    expect(extraContexts.length).toBe(0);
+  });
+
+  test('should close a page that is no longer tracked', async ({
+    extraPages,
+  }) => {
+    let disposed: Page;
+    {
+      await using page = await extraPages.open();
+      disposed = page;
+      extraPages.remove(page);
+    }
+
+    expect(disposed.isClosed()).toBe(true);
+  });
+
+  test('should close the pages of a scope on dispose', async ({
+    context,
+    extraPages,
+  }) => {
+    const outside = await extraPages.open(undefined, { context });
+    let inside: readonly Page[];
+    {
+      await using scope = extraPages.scope();
+      await scope.open(undefined, { context });
+      scope.push(await context.newPage(), { name: 'pushed' });
+      inside = scope.pages;
+      expect(inside).toHaveLength(2);
+    }
+
+    expect(inside.every(page => page.isClosed())).toBe(true);
+    expect(extraPages.pages).toEqual([outside]);
+    expect(extraPages.names).toEqual([]);
+  });
+
+  test.describe('Undisposed resources', () => {
+    test.describe.configure({ mode: 'default' });
+
+    let previous: TestInfo | undefined;
+
+    test('leaves a scope undisposed', async ({ context, extraPages }) => {
+      previous = test.info();
+
+      const scope = extraPages.scope();
+      await scope.open('data:text/html,undisposed', { context });
+      {
+        await using page = await extraPages.open('data:text/html,disposed', {
+          context,
+        });
+        await page.title();
+      }
+    });
+
+    test.afterAll('should still clean them up at teardown', async () => {
+      const attachment = previous!.attachments.find(
+        a => a.name === CLEANUP_REPORT_NAME
+      );
+      const report: CleanupReport = JSON.parse(attachment!.body!.toString());
+      // The disposed page is recorded when disposed, the other at teardown
+      expect(report.entries.map(entry => entry.url)).toEqual([
+        'data:text/html,disposed',
+        'data:text/html,undisposed',
+      ]);
+    });
+  });
+});
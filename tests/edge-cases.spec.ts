@@ -1,3 +1,4 @@
+import { AsyncResource } from 'node:async_hooks';
 import {
   test,
   expect,
@@ -6,6 +7,10 @@ import {
   extraPages,
 } from '../src/index';
 
+// Bound while the file loads, so calls through it run outside of any test's
+// async context, like a test body on Playwright versions pageman cannot bind
+const unbound = AsyncResource.bind(<T>(fn: () => T): T => fn());
+
 test.describe('PageMan - Edge Cases', () => {
   test.describe('Already Closed Pages', () => {
     test('should handle page closed before cleanup', async ({
@@ -151,6 +156,29 @@ test.describe('PageMan - Edge Cases', () => {
       await context.close();
     });
 
+    test('should resolve from a plain test body', async ({ browser }) => {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+
+      extraPages.push(page);
+      expect(getExtraPages().pages).toEqual([page]);
+
+      await context.close();
+    });
+
+    test('should fall back to the running test outside of its async context', async ({
+      browser,
+      extraPages: fixture,
+    }) => {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+
+      unbound(() => getExtraPages()).push(page);
+      expect(fixture.pages).toEqual([page]);
+
+      await context.close();
+    });
+
     test('proxy should have all expected members', async ({
       extraPages: _fixture,
     }) => {
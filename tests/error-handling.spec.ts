@@ -6,6 +6,7 @@ import {
   extraPages,
   extraContexts,
 } from '../src/index';
+import type { PageManOptions } from '../src/index';
 
 test.describe('PageMan - Error Handling', () => {
   test.describe('Page Close Errors with Logging', () => {
@@ -297,12 +298,7 @@ test.describe('PageMan - Error Handling', () => {
       extraPages: _pagesFixture,
       extraContexts: _contextsFixture,
     }) => {
-      // Note: Testing "outside test context" is challenging within Playwright's
-      // test framework since we're always in a test context. The error handling
-      // in assertExtraPagesActive() and assertExtraContextsActive() is designed
-      // to throw when currentExtraPages/currentExtraContexts are null, which
-      // happens before fixture setup and after fixture teardown.
-
+      // Access after teardown is covered by 'Access After Teardown' below.
       // This test ensures the global accessors work correctly when properly
       // used within a test context with both fixtures active
       expect(() => getExtraPages()).not.toThrow();
@@ -316,6 +312,66 @@ test.describe('PageMan - Error Handling', () => {
     });
   });
 
+  test.describe('Access After Teardown', () => {
+    test.describe.configure({ mode: 'default' });
+
+    // Detached work waits for the next test to start before touching the
+    // accessors
+    let release: () => void = () => {};
+    const nextTest = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const lateAccess = () =>
+      nextTest
+        .then(() => `resolved with ${extraPages.length} page(s)`)
+        .catch((error: Error) => error.message);
+
+    let fromHook: Promise<string> | undefined;
+    let fromBody: Promise<string> | undefined;
+
+    test.use({
+      pageManOptions: {
+        autoTrack: false,
+        afterClose: () => {
+          // Started by a hook, so still bound to this test once it is over
+          fromHook ??= lateAccess();
+        },
+      } as PageManOptions,
+    });
+
+    test('owns the trackers', async ({ context, extraPages: fixture }) => {
+      fixture.push(await context.newPage());
+      // Started by the test body and never awaited
+      fromBody = lateAccess();
+    });
+
+    test('should name the owning test from a detached promise', async ({
+      extraPages: fixture,
+    }) => {
+      // Fail instead of skipping, a retry runs in a fresh worker
+      expect(
+        fromBody,
+        'Requires the previous test in the same worker'
+      ).toBeDefined();
+      release();
+
+      // The running test still resolves to its own trackers
+      await fixture.open();
+      expect(extraPages.length).toBe(1);
+
+      const owner =
+        /^extraPages was accessed after the test that owned it was torn down: ".* › owns the trackers"/;
+      expect(await fromBody).toMatch(owner);
+      expect(await fromHook).toMatch(owner);
+    });
+
+    test.afterAll(() => {
+      expect(() => getExtraContexts()).toThrow(
+        /^extraContexts was accessed outside of a test/
+      );
+    });
+  });
+
   test.describe('ExtraContexts Proxy Functionality', () => {
     test('extraContexts proxy should delegate push to fixture', async ({
       browser,
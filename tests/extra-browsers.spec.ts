@@ -0,0 +1,143 @@
+import { test, expect, extraBrowsers, getExtraBrowsers } from '../src/index';
+import type { Browser, PageManOptions } from '../src/index';
+
+test.describe('ExtraBrowsers - Core Functionality', () => {
+  test.describe('Push and Track', () => {
+    test('should start empty', async ({ extraBrowsers }) => {
+      expect(extraBrowsers.length).toBe(0);
+      expect(extraBrowsers.browsers).toHaveLength(0);
+    });
+
+    test('should track and deduplicate a launched browser', async ({
+      playwright,
+      browserName,
+      extraBrowsers,
+    }) => {
+      const browser = await playwright[browserName].launch();
+      extraBrowsers.push(browser);
+      extraBrowsers.push(browser);
+
+      expect(extraBrowsers.length).toBe(1);
+      expect(extraBrowsers.browsers[0]).toBe(browser);
+    });
+
+    test('should be reachable through the global accessors', async ({
+      playwright,
+      browserName,
+      extraBrowsers: fixture,
+    }) => {
+      const browser = await playwright[browserName].launch();
+      getExtraBrowsers().push(browser);
+
+      expect(fixture.browsers).toEqual([browser]);
+      expect(extraBrowsers.length).toBe(1);
+    });
+  });
+
+  test.describe('Remove and Close', () => {
+    test('should not close a removed browser', async ({
+      playwright,
+      browserName,
+      extraBrowsers,
+    }) => {
+      const browser = await playwright[browserName].launch();
+      extraBrowsers.push(browser);
+
+      expect(extraBrowsers.remove(browser)).toBe(true);
+      expect(extraBrowsers.remove(browser)).toBe(false);
+      await extraBrowsers.closeAll();
+
+      expect(browser.isConnected()).toBe(true);
+      await browser.close();
+    });
+
+    test('closeAll should close tracked browsers', async ({
+      playwright,
+      browserName,
+      extraBrowsers,
+    }) => {
+      const browser = await playwright[browserName].launch();
+      extraBrowsers.push(browser);
+
+      await extraBrowsers.closeAll();
+
+      expect(browser.isConnected()).toBe(false);
+      expect(extraBrowsers.length).toBe(0);
+    });
+
+    test('should skip a browser closed by the test', async ({
+      playwright,
+      browserName,
+      extraBrowsers,
+    }) => {
+      const browser = await playwright[browserName].launch();
+      extraBrowsers.push(browser);
+      await browser.close();
+
+      await expect(extraBrowsers.closeAll()).resolves.toBeUndefined();
+    });
+  });
+
+  test.describe('Teardown', () => {
+    test.describe.configure({ mode: 'default' });
+
+    let launched: Browser | undefined;
+
+    test('launches a tracked browser', async ({
+      playwright,
+      browserName,
+      extraBrowsers,
+    }) => {
+      launched = await playwright[browserName].launch();
+      extraBrowsers.push(launched);
+    });
+
+    test.afterAll('should have closed the browser after the test', async () => {
+      expect(launched!.isConnected()).toBe(false);
+    });
+  });
+
+  test.describe('Auto-Tracking', () => {
+    test.use({
+      pageManOptions: { autoTrackBrowsers: true } as PageManOptions,
+    });
+
+    test('should track launched browsers but not the browser fixture', async ({
+      playwright,
+      browserName,
+      browser: fixtureBrowser,
+      extraBrowsers,
+    }) => {
+      const browser = await playwright[browserName].launch();
+
+      expect(extraBrowsers.browsers).toEqual([browser]);
+      expect(extraBrowsers.browsers).not.toContain(fixtureBrowser);
+    });
+
+    test('should close pages before their browser', async ({
+      playwright,
+      browserName,
+      extraBrowsers,
+      extraPages,
+    }) => {
+      const browser = await playwright[browserName].launch();
+      await extraPages.open(undefined, { browser });
+
+      expect(extraBrowsers.length).toBe(1);
+      expect(extraPages.length).toBe(1);
+    });
+  });
+
+  test.describe('Auto-Tracking Disabled', () => {
+    test('should not track launched browsers by default', async ({
+      playwright,
+      browserName,
+      extraBrowsers,
+    }) => {
+      const browser = await playwright[browserName].launch();
+
+      expect(extraBrowsers.length).toBe(0);
+      await browser.close();
+    });
+  });
+});
@@ -42,6 +42,24 @@ test.describe('ExtraContexts - Core Functionality', () => {
     });
   });
 
+  test.describe('Create', () => {
+    test('should create and track a context', async ({ extraContexts }) => {
+      const context = await extraContexts.create({ locale: 'de-DE' });
+
+      expect(extraContexts.contexts).toEqual([context]);
+      const page = await context.newPage();
+      expect(await page.evaluate(() => navigator.language)).toBe('de-DE');
+    });
+
+    test('should create the context in the given browser', async ({
+      browser,
+      extraContexts,
+    }) => {
+      const context = await extraContexts.create({ browser });
+      expect(context.browser()).toBe(browser);
+    });
+  });
+
   test.describe('Remove', () => {
     test('should remove a tracked context', async ({
       browser,
@@ -84,6 +102,18 @@ test.describe('ExtraContexts - Core Functionality', () => {
       expect(page.isClosed()).toBe(true);
     });
 
+    test('should close created contexts and their pages', async ({
+      extraContexts,
+    }) => {
+      const context = await extraContexts.create();
+      const page = await context.newPage();
+
+      await extraContexts.closeAll();
+
+      expect(extraContexts.length).toBe(0);
+      expect(page.isClosed()).toBe(true);
+    });
+
     test('should be a no-op when empty', async ({ extraContexts }) => {
       await expect(extraContexts.closeAll()).resolves.toBeUndefined();
     });
@@ -101,6 +131,18 @@ test.describe('ExtraContexts - Core Functionality', () => {
 
       expect(extraContexts.length).toBe(0);
     });
+
+    test('should close multiple created contexts', async ({
+      extraContexts,
+    }) => {
+      await extraContexts.create();
+      await extraContexts.create();
+      await extraContexts.create();
+
+      await extraContexts.closeAll();
+
+      expect(extraContexts.length).toBe(0);
+    });
   });
 
   test.describe('Combined with ExtraPages', () => {
@@ -118,6 +160,18 @@ test.describe('ExtraContexts - Core Functionality', () => {
       expect(extraPages.length).toBe(1);
       expect(extraContexts.length).toBe(1);
     });
+
+    test('should open tracked pages in a created context', async ({
+      extraPages,
+      extraContexts,
+    }) => {
+      const context = await extraContexts.create();
+      const page = await extraPages.open(undefined, { context });
+
+      expect(page.context()).toBe(context);
+      expect(extraPages.length).toBe(1);
+      expect(extraContexts.length).toBe(1);
+    });
   });
 
   test.describe('Isolation Between Tests', () => {
@@ -92,6 +92,43 @@ test.describe('ExtraPages - Core Functionality', () => {
     });
   });
 
+  test.describe('Open', () => {
+    test('should open, track and navigate a page', async ({ extraPages }) => {
+      const page = await extraPages.open('data:text/html,<h1>opened</h1>');
+
+      expect(extraPages.pages).toEqual([page]);
+      await expect(page.locator('h1')).toHaveText('opened');
+    });
+
+    test('should open a blank page without a url', async ({ extraPages }) => {
+      const page = await extraPages.open();
+      expect(page.url()).toBe('about:blank');
+    });
+
+    test('should open the page in the given context', async ({
+      context,
+      extraPages,
+    }) => {
+      const page = await extraPages.open(undefined, {
+        context,
+        name: 'second',
+      });
+
+      expect(page.context()).toBe(context);
+      expect(extraPages.get('second')).toBe(page);
+    });
+
+    test('should close the page when its name is taken', async ({
+      extraPages,
+    }) => {
+      const first = await extraPages.open(undefined, { name: 'main' });
+      await expect(
+        extraPages.open(undefined, { name: 'main' })
+      ).rejects.toThrow(/already used/);
+      expect(extraPages.pages).toEqual([first]);
+    });
+  });
+
   test.describe('Auto-Cleanup on Teardown', () => {
     test('should auto-close tracked pages after test', async ({
       browser,
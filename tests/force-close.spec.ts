@@ -0,0 +1,149 @@
+import { test, expect, CLEANUP_REPORT_NAME } from '../src/index';
+import type {
+  CleanupReport,
+  Page,
+  PageManLogger,
+  PageManOptions,
+  TestInfo,
+} from '../src/index';
+
+const warnings: string[] = [];
+const logger: PageManLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: message => warnings.push(message),
+  error: () => {},
+};
+
+/** Make every page.close() call hang, like a page stuck in an unload handler */
+function hangOnClose(page: Page): void {
+  page.close = async () => {
+    await new Promise(resolve => setTimeout(resolve, 10000));
+  };
+}
+
+test.describe('PageMan - Force Close', () => {
+  test.describe('forceClose: true', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        closeTimeout: 200,
+        autoTrack: false,
+        logger,
+      } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+    let hung: Page | undefined;
+
+    test('leaves a hanging page', async ({ extraPages }) => {
+      previous = test.info();
+      warnings.length = 0;
+
+      // In a context of its own, which force closing may close
+      hung = await extraPages.open(undefined, { name: 'stuck' });
+      hangOnClose(hung);
+    });
+
+    test.afterAll('should escalate until the page is closed', async () => {
+      expect(hung!.isClosed()).toBe(true);
+
+      const attachment = previous!.attachments.find(
+        a => a.name === CLEANUP_REPORT_NAME
+      );
+      const report: CleanupReport = JSON.parse(attachment!.body!.toString());
+      expect(report.entries).toEqual([
+        expect.objectContaining({
+          outcome: 'timeout',
+          forceClose: [
+            // The timed out close already skipped beforeunload handlers
+            { step: 'close-without-beforeunload', outcome: 'skipped' },
+            { step: 'close-context', outcome: 'closed' },
+          ],
+        }),
+      ]);
+      expect(warnings).toEqual([
+        'force-closing page "stuck" about:blank, ' +
+          'page.close({ runBeforeUnload: false }): skipped',
+        'force-closing page "stuck" about:blank, closing its context: closed',
+        'failed to close page "stuck": Page close timeout',
+      ]);
+    });
+  });
+
+  test.describe("dialogPolicy: 'accept'", () => {
+    test.use({
+      pageManOptions: {
+        closeTimeout: 200,
+        autoTrack: false,
+        dialogPolicy: 'accept',
+        logger,
+      } as PageManOptions,
+    });
+
+    test('should retry without beforeunload handlers first', async ({
+      extraPages,
+    }) => {
+      warnings.length = 0;
+      const hung = await extraPages.open();
+      hangOnClose(hung);
+
+      await extraPages.closeAll();
+
+      expect(warnings.slice(0, 2)).toEqual([
+        'force-closing page about:blank, ' +
+          'page.close({ runBeforeUnload: false }): timeout (close-without-beforeunload timeout)',
+        'force-closing page about:blank, closing its context: closed',
+      ]);
+    });
+  });
+
+  test.describe('Shared Contexts', () => {
+    test.use({
+      pageManOptions: {
+        closeTimeout: 200,
+        autoTrack: false,
+        logger,
+      } as PageManOptions,
+    });
+
+    test('should not close the default context', async ({
+      context,
+      page,
+      extraPages,
+    }) => {
+      warnings.length = 0;
+      const hung = await extraPages.open(undefined, { context });
+      hangOnClose(hung);
+
+      await extraPages.closeAll();
+
+      expect(warnings).toContain(
+        'force-closing page about:blank, closing its context: skipped'
+      );
+      expect(page.isClosed()).toBe(false);
+    });
+  });
+
+  test.describe('forceClose: false', () => {
+    test.use({
+      pageManOptions: {
+        closeTimeout: 200,
+        autoTrack: false,
+        forceClose: false,
+      } as PageManOptions,
+    });
+
+    test('should leave the page open', async ({ browser, extraPages }) => {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      hangOnClose(page);
+      extraPages.push(page);
+
+      await extraPages.closeAll();
+
+      expect(page.isClosed()).toBe(false);
+      await context.close();
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { test, expect } from '../src/index';
+import type { PageManHook, PageManOptions } from '../src/index';
+
+const calls: string[] = [];
+
+function recordAs(name: string): PageManHook {
+  return (_resource, testInfo, details) => {
+    // Hook errors are swallowed, so record a mismatch instead of asserting
+    if (testInfo !== test.info()) calls.push(`${name} with wrong TestInfo`);
+    const error = details.error instanceof Error ? details.error.message : '';
+    calls.push(
+      [name, details.type, details.source, details.outcome, error]
+        .filter(Boolean)
+        .join(' ')
+    );
+  };
+}
+
+test.describe('PageMan - Lifecycle Hooks', () => {
+  test.use({
+    pageManOptions: {
+      closeTimeout: 200,
+      autoTrack: false,
+      onTrack: recordAs('onTrack'),
+      beforeClose: recordAs('beforeClose'),
+      afterClose: recordAs('afterClose'),
+      onCloseError: recordAs('onCloseError'),
+    } as PageManOptions,
+  });
+
+  test.beforeEach(() => {
+    calls.length = 0;
+  });
+
+  test('should call hooks around closing a page', async ({
+    browser,
+    extraPages,
+  }) => {
+    const context = await browser.newContext();
+    extraPages.push(await context.newPage());
+    await extraPages.closeAll();
+    await context.close();
+
+    expect(calls).toEqual([
+      'onTrack page manual',
+      'beforeClose page manual',
+      'afterClose page manual closed',
+    ]);
+  });
+
+  test('should call hooks around closing a context', async ({
+    browser,
+    extraContexts,
+  }) => {
+    extraContexts.push(await browser.newContext());
+    await extraContexts.closeAll();
+
+    expect(calls).toEqual([
+      'onTrack context manual',
+      'beforeClose context manual',
+      'afterClose context manual closed',
+    ]);
+  });
+
+  test('should skip beforeClose for resources that are already closed', async ({
+    browser,
+    extraPages,
+  }) => {
+    const context = await browser.newContext();
+    const page = await context.newPage();
+    extraPages.push(page);
+    await page.close();
+    await extraPages.closeAll();
+    await context.close();
+
+    expect(calls).toEqual([
+      'onTrack page manual',
+      'afterClose page manual already-closed',
+    ]);
+  });
+
+  test('should call onCloseError with the close error', async ({
+    browser,
+    extraPages,
+  }) => {
+    const context = await browser.newContext();
+    const page = await context.newPage();
+    const originalClose = page.close.bind(page);
+    page.close = async () => {
+      throw new Error('Simulated page close error');
+    };
+    extraPages.push(page);
+
+    try {
+      await extraPages.closeAll();
+    } finally {
+      page.close = originalClose;
+      await context.close();
+    }
+
+    expect(calls).toEqual([
+      'onTrack page manual',
+      'beforeClose page manual',
+      'afterClose page manual error',
+      'onCloseError page manual error Simulated page close error',
+    ]);
+  });
+
+  test.describe('Failing hooks', () => {
+    test.use({
+      pageManOptions: {
+        closeTimeout: 200,
+        autoTrack: false,
+        beforeClose: async () => {
+          await new Promise(resolve => setTimeout(resolve, 10000));
+        },
+        afterClose: () => {
+          throw new Error('Simulated hook error');
+        },
+      } as PageManOptions,
+    });
+
+    test('should still close when hooks time out or throw', async ({
+      browser,
+      extraPages,
+    }) => {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      extraPages.push(page);
+
+      await expect(extraPages.closeAll()).resolves.toBeUndefined();
+      expect(page.isClosed()).toBe(true);
+
+      await context.close();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { test, expect } from '../src/index';
+import type { BrowserContext, Page, PageManOptions } from '../src/index';
+
+test.describe('PageMan - Leak Detection', () => {
+  test.describe('leakPolicy: ignore', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        leakPolicy: 'ignore',
+        autoTrackContexts: false,
+      } as PageManOptions,
+    });
+
+    let leaked: BrowserContext | undefined;
+
+    test('leaves an untracked context open', async ({ browser }) => {
+      leaked = await browser.newContext();
+    });
+
+    test.afterAll(
+      'untracked context should still be open',
+      async ({ browser }) => {
+        expect(browser.contexts()).toContain(leaked);
+        await leaked!.close();
+      }
+    );
+  });
+
+  test.describe('leakPolicy: warn', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        leakPolicy: 'warn',
+        autoTrackContexts: false,
+      } as PageManOptions,
+    });
+
+    let leaked: BrowserContext | undefined;
+    let capturedOutput = '';
+    let originalWrite: typeof process.stdout.write | undefined;
+
+    test('leaves an untracked context open', async ({ browser }) => {
+      // Capture stays active through teardown, restored by afterAll
+      originalWrite = process.stdout.write.bind(process.stdout);
+      const write = originalWrite;
+      process.stdout.write = ((chunk: any): boolean => {
+        capturedOutput += String(chunk);
+        return write(chunk);
+      }) as typeof process.stdout.write;
+
+      leaked = await browser.newContext();
+      await leaked.newPage();
+    });
+
+    test.afterAll(
+      'should have logged the leaked context',
+      async ({ browser }) => {
+        if (originalWrite) {
+          process.stdout.write = originalWrite;
+        }
+
+        expect(capturedOutput).toContain('[pageman] Warning:');
+        expect(capturedOutput).toContain('leaves an untracked context open');
+        expect(capturedOutput).toContain('context with 1 page(s): about:blank');
+        expect(browser.contexts()).toContain(leaked);
+
+        await leaked!.close();
+      }
+    );
+  });
+
+  test.describe('leakPolicy: close', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        leakPolicy: 'close',
+        autoTrackContexts: false,
+      } as PageManOptions,
+    });
+
+    let leakedContext: BrowserContext | undefined;
+    let leakedPage: Page | undefined;
+    let sharedContext: BrowserContext | undefined;
+
+    test.beforeAll(async ({ browser }) => {
+      sharedContext = await browser.newContext();
+    });
+
+    test('leaves an untracked context and page open', async ({ browser }) => {
+      leakedContext = await browser.newContext();
+      leakedPage = await sharedContext!.newPage();
+    });
+
+    test.afterAll(
+      'should have closed the leaked context and page',
+      async ({ browser }) => {
+        try {
+          expect(browser.contexts()).not.toContain(leakedContext);
+          expect(leakedPage!.isClosed()).toBe(true);
+          // Contexts that existed before the test are left alone
+          expect(browser.contexts()).toContain(sharedContext);
+        } finally {
+          await sharedContext?.close();
+        }
+      }
+    );
+  });
+
+  test.describe('leakPolicy: fail', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        leakPolicy: 'fail',
+        autoTrackContexts: false,
+      } as PageManOptions,
+    });
+
+    let leaked: BrowserContext | undefined;
+
+    test('should fail a test that leaks a context', async ({ browser }) => {
+      test.fail();
+
+      leaked = await browser.newContext();
+    });
+
+    test('should not report tracked pages and contexts', async ({
+      browser,
+      extraPages,
+      extraContexts,
+    }) => {
+      const context = await browser.newContext();
+      extraContexts.push(context);
+      extraPages.push(await context.newPage());
+      extraPages.push(await browser.newPage());
+    });
+
+    test('should not report the default context and page', async ({
+      page,
+      context,
+    }) => {
+      await context.newPage();
+      expect(page.isClosed()).toBe(false);
+    });
+
+    test('should not report resources closed by the test', async ({
+      browser,
+    }) => {
+      const context = await browser.newContext();
+      await context.newPage();
+      await context.close();
+    });
+
+    test.afterAll(
+      'should have closed the leaked context',
+      async ({ browser }) => {
+        expect(browser.contexts()).not.toContain(leaked);
+      }
+    );
+  });
+});
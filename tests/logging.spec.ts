@@ -0,0 +1,181 @@
+import { test, expect } from '../src/index';
+import type { PageManLogger, PageManOptions, TestInfo } from '../src/index';
+
+function captureStdout(): { output: string[]; restore: () => void } {
+  const output: string[] = [];
+  const originalWrite = process.stdout.write.bind(process.stdout);
+  process.stdout.write = ((chunk: any): boolean => {
+    output.push(chunk.toString());
+    return true;
+  }) as typeof process.stdout.write;
+  return { output, restore: () => (process.stdout.write = originalWrite) };
+}
+
+const messages: { level: string; message: string }[] = [];
+const logger: PageManLogger = {
+  debug: message => messages.push({ level: 'debug', message }),
+  info: message => messages.push({ level: 'info', message }),
+  warn: message => messages.push({ level: 'warn', message }),
+  error: message => messages.push({ level: 'error', message }),
+};
+
+test.describe('PageMan - Logging', () => {
+  test.describe('Custom logger', () => {
+    test.use({
+      pageManOptions: {
+        logger,
+        logLevel: 'debug',
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    test('should receive messages without the [pageman] prefix', async ({
+      browser,
+      extraPages,
+    }) => {
+      messages.length = 0;
+      const context = await browser.newContext();
+      extraPages.push(await context.newPage());
+      await extraPages.closeAll();
+      await context.close();
+
+      expect(messages).toEqual([
+        { level: 'debug', message: 'Tracking page about:blank (manual)' },
+        {
+          level: 'info',
+          message: 'Closing 1 tracked page(s) in reverse order',
+        },
+        { level: 'info', message: 'Successfully cleaned up 1 page(s)' },
+      ]);
+    });
+  });
+
+  test.describe('Default stdout sink', () => {
+    test.use({
+      pageManOptions: {
+        logCleanup: false,
+        closeTimeout: 200,
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    test('should only print warnings without logCleanup', async ({
+      browser,
+      extraPages,
+    }) => {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      const originalClose = page.close.bind(page);
+      page.close = async () => {
+        throw new Error('Simulated page close error');
+      };
+      extraPages.push(page);
+
+      const { output, restore } = captureStdout();
+      try {
+        await extraPages.closeAll();
+      } finally {
+        restore();
+        page.close = originalClose;
+        await context.close();
+      }
+
+      expect(output).toEqual([
+        '[pageman] Warning: failed to close page: Simulated page close error\n',
+      ]);
+    });
+  });
+
+  test.describe("logLevel: 'silent'", () => {
+    test.use({
+      pageManOptions: {
+        logCleanup: true,
+        logLevel: 'silent',
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    test('should print nothing even with logCleanup', async ({
+      browser,
+      extraPages,
+    }) => {
+      const context = await browser.newContext();
+      extraPages.push(await context.newPage());
+
+      const { output, restore } = captureStdout();
+      try {
+        await extraPages.closeAll();
+      } finally {
+        restore();
+        await context.close();
+      }
+
+      expect(output.filter(line => line.includes('[pageman]'))).toEqual([]);
+    });
+  });
+
+  test.describe('Annotation sink', () => {
+    test.use({
+      pageManOptions: {
+        logger: 'annotation',
+        logCleanup: true,
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    test('should add a pageman annotation per message', async ({
+      browser,
+      extraContexts,
+    }) => {
+      extraContexts.push(await browser.newContext());
+      await extraContexts.closeAll();
+
+      expect(test.info().annotations.filter(a => a.type === 'pageman')).toEqual(
+        [
+          {
+            type: 'pageman',
+            description: 'Closing 1 tracked context(s) in reverse order',
+          },
+          {
+            type: 'pageman',
+            description: 'Successfully cleaned up 1 context(s)',
+          },
+        ]
+      );
+    });
+  });
+
+  test.describe('Attachment sink', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        logger: ['attachment'],
+        logCleanup: true,
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+
+    test('tracks a page', async ({ browser, extraPages }) => {
+      previous = test.info();
+
+      const context = await browser.newContext();
+      extraPages.push(await context.newPage());
+    });
+
+    test.afterAll(
+      'should attach the teardown log as pageman-log.txt',
+      async () => {
+        const log = previous!.attachments.find(
+          a => a.name === 'pageman-log.txt'
+        );
+        expect(log?.contentType).toBe('text/plain');
+        expect(log?.body?.toString()).toBe(
+          '[pageman] Closing 1 tracked page(s) in reverse order\n' +
+            '[pageman] Successfully cleaned up 1 page(s)\n'
+        );
+      }
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { test, expect, CLEANUP_REPORT_NAME, extraPages } from '../src/index';
+import type { CleanupReport, PageManOptions, TestInfo } from '../src/index';
+
+function report(testInfo: TestInfo): CleanupReport {
+  const attachment = testInfo.attachments.find(
+    a => a.name === CLEANUP_REPORT_NAME
+  );
+  return JSON.parse(attachment!.body!.toString());
+}
+
+test.describe('PageMan - Named Pages', () => {
+  test.use({
+    pageManOptions: { autoTrack: false } as PageManOptions,
+  });
+
+  test('should find pages by name and tag', async ({ context }) => {
+    const admin = await context.newPage();
+    const buyer = await context.newPage();
+    const seller = await context.newPage();
+
+    extraPages.push(admin, { name: 'admin', tags: ['staff'] });
+    extraPages.push(buyer, { name: 'buyer', tags: ['customer'] });
+    extraPages.push(seller, { tags: ['customer'] });
+
+    expect(extraPages.get('admin')).toBe(admin);
+    expect(extraPages.get('missing')).toBeUndefined();
+    expect(extraPages.byTag('customer')).toEqual([buyer, seller]);
+    expect(extraPages.names).toEqual(['admin', 'buyer']);
+  });
+
+  test('should throw when a name is already used', async ({
+    context,
+    extraPages: fixture,
+  }) => {
+    const first = await context.newPage();
+    const second = await context.newPage();
+
+    fixture.push(first, { name: 'main' });
+    expect(() => fixture.push(second, { name: 'main' })).toThrow(
+      /Cannot track page .* as "main": that name is already used/
+    );
+    expect(fixture.pages).toEqual([first]);
+
+    // Pushing the same page again under its own name is fine
+    expect(() => fixture.push(first, { name: 'main' })).not.toThrow();
+  });
+
+  test('should free the name once the page is removed', async ({
+    context,
+    extraPages: fixture,
+  }) => {
+    const first = await context.newPage();
+    const second = await context.newPage();
+
+    fixture.push(first, { name: 'main' });
+    fixture.remove(first);
+    fixture.push(second, { name: 'main' });
+
+    expect(fixture.get('main')).toBe(second);
+  });
+
+  test('should label a page that is already tracked', async ({
+    context,
+    extraPages: fixture,
+  }) => {
+    const page = await context.newPage();
+    fixture.push(page);
+    fixture.push(page, { name: 'popup', tags: ['a'] });
+    fixture.push(page, { tags: ['b'] });
+
+    expect(fixture.length).toBe(1);
+    expect(fixture.get('popup')).toBe(page);
+    expect(fixture.byTag('b')).toEqual([page]);
+  });
+
+  test.describe('Cleanup report', () => {
+    test.describe.configure({ mode: 'default' });
+
+    let previous: TestInfo | undefined;
+
+    test('pushes a named page', async ({ context }) => {
+      previous = test.info();
+      const page = await context.newPage();
+      extraPages.push(page, { name: 'checkout', tags: ['payment'] });
+    });
+
+    test.afterAll('should record the name and tags', async () => {
+      expect(report(previous!).entries).toEqual([
+        expect.objectContaining({
+          type: 'page',
+          name: 'checkout',
+          tags: ['payment'],
+          outcome: 'closed',
+        }),
+      ]);
+    });
+  });
+});
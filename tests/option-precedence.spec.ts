@@ -0,0 +1,131 @@
+import { test, expect } from '../src/index';
+import type { PageManOptions } from '../src/index';
+
+// File-level override
+test.use({
+  pageManOptions: { autoTrackContexts: true } as PageManOptions,
+});
+
+function projectOptions(): PageManOptions {
+  return (test.info().project.use as any)?.pageManOptions ?? {};
+}
+
+async function captureStdout(fn: () => Promise<void>): Promise<string> {
+  let capturedOutput = '';
+  const originalWrite = process.stdout.write.bind(process.stdout);
+  process.stdout.write = ((chunk: any): boolean => {
+    capturedOutput += String(chunk);
+    return originalWrite(chunk);
+  }) as typeof process.stdout.write;
+
+  try {
+    await fn();
+  } finally {
+    process.stdout.write = originalWrite;
+  }
+  return capturedOutput;
+}
+
+test.describe('PageMan - Option Precedence', () => {
+  test.describe('File-level test.use()', () => {
+    test('should override defaults and project config', async ({
+      browser,
+      extraContexts,
+    }) => {
+      const context = await browser.newContext();
+
+      expect(extraContexts.contexts).toContain(context);
+    });
+
+    test('should keep project config for keys it does not set', async ({
+      browser,
+      extraPages,
+    }) => {
+      const page = await browser.newPage();
+
+      // autoTrack comes from the project config, falling back to the default
+      const autoTrack = projectOptions().autoTrack ?? true;
+      expect(extraPages.pages.includes(page)).toBe(autoTrack);
+
+      await page.close();
+    });
+  });
+
+  test.describe('Describe-level test.use()', () => {
+    test.use({
+      pageManOptions: {
+        autoTrackContexts: false,
+        logCleanup: true,
+      } as PageManOptions,
+    });
+
+    test('should win over the file-level override', async ({
+      browser,
+      extraContexts,
+    }) => {
+      const context = await browser.newContext();
+
+      expect(extraContexts.contexts).not.toContain(context);
+
+      await context.close();
+    });
+
+    test('should win over the project config', async ({
+      browser,
+      extraPages,
+    }) => {
+      test.skip(
+        !!projectOptions().logCleanup,
+        'Requires logCleanup to be off in the project config'
+      );
+
+      const context = await browser.newContext();
+      extraPages.push(await context.newPage());
+
+      const output = await captureStdout(() => extraPages.closeAll());
+      expect(output).toContain('[pageman]');
+
+      await context.close();
+    });
+
+    test('should keep project config for keys it does not set', async ({
+      browser,
+      extraPages,
+    }) => {
+      const page = await browser.newPage();
+
+      const autoTrack = projectOptions().autoTrack ?? true;
+      expect(extraPages.pages.includes(page)).toBe(autoTrack);
+
+      await page.close();
+    });
+  });
+
+  test.describe('Nested describe-level test.use()', () => {
+    test.use({ pageManOptions: { autoTrack: false } as PageManOptions });
+
+    test.describe('innermost override', () => {
+      test.use({ pageManOptions: { autoTrack: true } as PageManOptions });
+
+      test('should win over outer describe overrides', async ({
+        browser,
+        extraPages,
+      }) => {
+        const page = await browser.newPage();
+
+        expect(extraPages.pages).toContain(page);
+      });
+    });
+
+    test('should apply to tests in the outer describe', async ({
+      browser,
+      extraPages,
+    }) => {
+      const page = await browser.newPage();
+
+      expect(extraPages.pages).not.toContain(page);
+
+      await page.close();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import fs from 'node:fs';
+import { test, expect } from '../src/index';
+import type { PageManLogger, PageManOptions } from '../src/index';
+
+// The user data dirs pageman creates and deletes, read from its debug log
+const debugLines: string[] = [];
+const logger: PageManLogger = {
+  debug: message => debugLines.push(message),
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+function loggedDirs(prefix: string): string[] {
+  return debugLines
+    .filter(line => line.startsWith(prefix))
+    .map(line => line.slice(prefix.length));
+}
+
+const launched = () => loggedDirs('Launched persistent context in ');
+const deleted = () => loggedDirs('Deleted user data dir ');
+
+const options: PageManOptions = { logLevel: 'debug', logger };
+
+test.use({ pageManOptions: options });
+
+test.beforeEach(() => {
+  debugLines.length = 0;
+});
+
+test.describe('ExtraContexts - Persistent Contexts', () => {
+  test('should launch and track a persistent context', async ({
+    playwright,
+    browserName,
+    extraContexts,
+  }) => {
+    const context = await extraContexts.launchPersistent(
+      playwright[browserName],
+      { locale: 'de-DE' }
+    );
+
+    expect(extraContexts.contexts).toEqual([context]);
+    expect(context.browser()).toBeNull();
+    expect(launched()).toHaveLength(1);
+    expect(fs.existsSync(launched()[0])).toBe(true);
+
+    const page = await context.newPage();
+    expect(await page.evaluate(() => navigator.language)).toBe('de-DE');
+  });
+
+  test('should delete the user data dir when the launch fails', async ({
+    playwright,
+    browserName,
+    extraContexts,
+  }) => {
+    await expect(
+      extraContexts.launchPersistent(playwright[browserName], {
+        executablePath: '/nonexistent/browser',
+      })
+    ).rejects.toThrow();
+
+    expect(extraContexts.length).toBe(0);
+    expect(launched()).toEqual([]);
+    expect(deleted()).toHaveLength(1);
+    expect(fs.existsSync(deleted()[0])).toBe(false);
+  });
+
+  test.describe('Teardown', () => {
+    test.describe.configure({ mode: 'default' });
+
+    let dir: string | undefined;
+
+    test('launches a persistent context', async ({
+      playwright,
+      browserName,
+      extraContexts,
+    }) => {
+      await extraContexts.launchPersistent(playwright[browserName]);
+      [dir] = launched();
+    });
+
+    test.afterAll('should have deleted the user data dir', async () => {
+      expect(fs.existsSync(dir!)).toBe(false);
+    });
+  });
+
+  test.describe('keepUserDataDir', () => {
+    test.use({
+      pageManOptions: { ...options, keepUserDataDir: 'on-failure' },
+    });
+    test.describe.configure({ mode: 'default' });
+
+    let dir: string | undefined;
+
+    test('launches a persistent context in a passing test', async ({
+      playwright,
+      browserName,
+      extraContexts,
+    }) => {
+      await extraContexts.launchPersistent(playwright[browserName]);
+      [dir] = launched();
+    });
+
+    test.afterAll('should delete the dir when the test passed', async () => {
+      expect(fs.existsSync(dir!)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { test, expect } from '../src/index';
+import type { PageManOptions } from '../src/index';
+
+const storageState = path.join(
+  os.tmpdir(),
+  `pageman-persona-${process.pid}.json`
+);
+
+test.describe('PageMan - Personas', () => {
+  test.use({
+    pageManOptions: {
+      autoTrack: false,
+      personas: {
+        admin: storageState,
+        buyer: { locale: 'de-DE' },
+      },
+    } as PageManOptions,
+  });
+
+  test.beforeAll(() => {
+    fs.writeFileSync(
+      storageState,
+      JSON.stringify({
+        cookies: [
+          {
+            name: 'session',
+            value: 'admin',
+            domain: 'example.com',
+            path: '/',
+            expires: -1,
+            httpOnly: false,
+            secure: false,
+            sameSite: 'Lax',
+          },
+        ],
+        origins: [],
+      })
+    );
+  });
+
+  test.afterAll(() => {
+    fs.rmSync(storageState, { force: true });
+  });
+
+  test('should load a storageState persona', async ({ extraContexts }) => {
+    const { context, page } = await extraContexts.as('admin');
+
+    expect(extraContexts.contexts).toEqual([context]);
+    expect(page.context()).toBe(context);
+    expect(await context.cookies()).toEqual([
+      expect.objectContaining({ name: 'session', value: 'admin' }),
+    ]);
+  });
+
+  test('should create a context from persona options', async ({
+    extraContexts,
+  }) => {
+    const { page } = await extraContexts.as('buyer');
+    expect(await page.evaluate(() => navigator.language)).toBe('de-DE');
+  });
+
+  test('should reuse the persona context within the test', async ({
+    extraContexts,
+  }) => {
+    const [first, second] = await Promise.all([
+      extraContexts.as('buyer'),
+      extraContexts.as('buyer'),
+    ]);
+    const admin = await extraContexts.as('admin');
+
+    expect(second.context).toBe(first.context);
+    expect(second.page).toBe(first.page);
+    expect(admin.context).not.toBe(first.context);
+    expect(extraContexts.length).toBe(2);
+  });
+
+  test('should open a new page when the last one was closed', async ({
+    extraContexts,
+  }) => {
+    const first = await extraContexts.as('buyer');
+    await first.page.close();
+
+    const second = await extraContexts.as('buyer');
+    expect(second.context).toBe(first.context);
+    expect(second.page.isClosed()).toBe(false);
+  });
+
+  test('should create a new context once the old one is closed', async ({
+    extraContexts,
+  }) => {
+    const first = await extraContexts.as('buyer');
+    await extraContexts.closeAll();
+
+    const second = await extraContexts.as('buyer');
+    expect(second.context).not.toBe(first.context);
+  });
+
+  test('should throw for an unknown persona', async ({ extraContexts }) => {
+    await expect(extraContexts.as('guest')).rejects.toThrow(
+      'Unknown persona "guest", expected one of: admin, buyer'
+    );
+  });
+});
@@ -0,0 +1,205 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type {
+  FullConfig,
+  Suite,
+  TestCase,
+  TestResult,
+} from '@playwright/test/reporter';
+import { test, expect, CLEANUP_REPORT_NAME } from '../src/index';
+import type { CleanupReport } from '../src/index';
+import PageManReporter from '../src/reporter';
+
+const rootDir = '/project/tests';
+
+function fakeConfig(): FullConfig {
+  return { rootDir, configFile: '/project/playwright.config.ts' } as FullConfig;
+}
+
+function fakeTest(file: string, title: string): TestCase {
+  return {
+    location: { file: path.join(rootDir, file), line: 1, column: 1 },
+    titlePath: () => ['', 'chromium', file, 'suite', title],
+  } as unknown as TestCase;
+}
+
+function fakeResult(report: Partial<CleanupReport>, retry = 0): TestResult {
+  const body: CleanupReport = {
+    titlePath: [],
+    retry,
+    leakPolicy: 'warn',
+    entries: [],
+    leaks: [],
+    ...report,
+  };
+  return {
+    retry,
+    attachments: [
+      {
+        name: CLEANUP_REPORT_NAME,
+        contentType: 'application/json',
+        body: Buffer.from(JSON.stringify(body)),
+      },
+    ],
+  } as unknown as TestResult;
+}
+
+function runReporter(reporter: PageManReporter): void {
+  reporter.onBegin(fakeConfig(), {} as Suite);
+
+  reporter.onTestEnd(
+    fakeTest('checkout.spec.ts', 'pays'),
+    fakeResult({
+      entries: [
+        {
+          type: 'page',
+          url: 'https://example.com/pay',
+          source: 'auto',
+          lifetimeMs: 900,
+          closeDurationMs: 40,
+          outcome: 'closed',
+        },
+        {
+          type: 'context',
+          pageUrls: [],
+          source: 'manual',
+          lifetimeMs: 1000,
+          closeDurationMs: 5000,
+          outcome: 'timeout',
+          error: 'Context close timeout',
+        },
+      ],
+      leaks: [{ type: 'page', url: 'https://example.com/leak' }],
+    })
+  );
+
+  // Retry of the same test
+  reporter.onTestEnd(
+    fakeTest('checkout.spec.ts', 'pays'),
+    fakeResult(
+      {
+        entries: [
+          {
+            type: 'page',
+            url: 'https://example.com/pay',
+            source: 'auto',
+            lifetimeMs: 500,
+            closeDurationMs: 0,
+            outcome: 'already-closed',
+          },
+        ],
+      },
+      1
+    )
+  );
+
+  // Test without a cleanup report
+  reporter.onTestEnd(fakeTest('other.spec.ts', 'plain'), {
+    retry: 0,
+    attachments: [],
+  } as unknown as TestResult);
+}
+
+test.describe('PageManReporter', () => {
+  test('should aggregate cleanup reports across tests and retries', async () => {
+    const reporter = new PageManReporter({ printSummary: false });
+    runReporter(reporter);
+    await reporter.onEnd();
+
+    const summary = reporter.getSummary();
+    expect(summary.attempts).toBe(2);
+    expect(summary.pages).toEqual({
+      closed: 1,
+      alreadyClosed: 1,
+      timeouts: 0,
+      errors: 0,
+    });
+    expect(summary.contexts).toEqual({
+      closed: 0,
+      alreadyClosed: 0,
+      timeouts: 1,
+      errors: 0,
+    });
+    expect(summary.leaksByFile).toEqual({ 'checkout.spec.ts': 1 });
+    expect(summary.leaks[0]).toMatchObject({
+      file: 'checkout.spec.ts',
+      title: 'suite › pays',
+      retry: 0,
+    });
+  });
+
+  test('should list the slowest closes first', async () => {
+    const reporter = new PageManReporter({ printSummary: false, slowest: 1 });
+    runReporter(reporter);
+    await reporter.onEnd();
+
+    const { slowest } = reporter.getSummary();
+    expect(slowest).toHaveLength(1);
+    expect(slowest[0].entry.outcome).toBe('timeout');
+    expect(slowest[0].entry.closeDurationMs).toBe(5000);
+  });
+
+  test('should print a summary to stdout', async () => {
+    const reporter = new PageManReporter();
+    runReporter(reporter);
+
+    let capturedOutput = '';
+    const originalWrite = process.stdout.write.bind(process.stdout);
+    process.stdout.write = ((chunk: any): boolean => {
+      capturedOutput += String(chunk);
+      return originalWrite(chunk);
+    }) as typeof process.stdout.write;
+
+    try {
+      await reporter.onEnd();
+    } finally {
+      process.stdout.write = originalWrite;
+    }
+
+    expect(capturedOutput).toContain('[pageman] Cleanup summary');
+    expect(capturedOutput).toContain('1 closed, 1 already closed');
+    expect(capturedOutput).toContain('checkout.spec.ts: 1');
+    expect(capturedOutput).toContain('5000ms context');
+  });
+
+  test('should write a JSON summary file', async () => {
+    const outputFile = test.info().outputPath('pageman-summary.json');
+    const reporter = new PageManReporter({ printSummary: false, outputFile });
+    runReporter(reporter);
+    await reporter.onEnd();
+
+    const written = JSON.parse(fs.readFileSync(outputFile, 'utf8'));
+    expect(written).toEqual(reporter.getSummary());
+  });
+
+  test('should write a Markdown summary file', async () => {
+    const outputFile = test.info().outputPath('pageman-summary.md');
+    const reporter = new PageManReporter({ printSummary: false, outputFile });
+    runReporter(reporter);
+    await reporter.onEnd();
+
+    const written = fs.readFileSync(outputFile, 'utf8');
+    expect(written).toContain('# pageman cleanup summary');
+    expect(written).toContain('| Timed out | 0 | 1 |');
+    expect(written).toContain('| checkout.spec.ts | 1 |');
+    expect(written).toContain('page https://example.com/leak');
+  });
+
+  test('should ignore malformed attachments', async () => {
+    const reporter = new PageManReporter({ printSummary: false });
+    reporter.onBegin(fakeConfig(), {} as Suite);
+    reporter.onTestEnd(fakeTest('broken.spec.ts', 'broken'), {
+      retry: 0,
+      attachments: [
+        {
+          name: CLEANUP_REPORT_NAME,
+          contentType: 'application/json',
+          body: Buffer.from('not json'),
+        },
+      ],
+    } as unknown as TestResult);
+    await reporter.onEnd();
+
+    expect(reporter.getSummary().attempts).toBe(0);
+  });
+});
@@ -0,0 +1,133 @@
+import { test, expect } from '../src/index';
+import type { PageManOptions, TestInfo } from '../src/index';
+
+function captures(testInfo: TestInfo): string[] {
+  return testInfo.attachments
+    .map(a => a.name)
+    .filter(name => name.startsWith('pageman-page-'));
+}
+
+test.describe('PageMan - Screenshots', () => {
+  test.describe("screenshot: 'on'", () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: { screenshot: 'on', captureHtml: true } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+
+    test('tracks open and closed pages', async ({ browser, extraPages }) => {
+      previous = test.info();
+
+      const context = await browser.newContext();
+      const open = await context.newPage();
+      await open.setContent('<h1>evidence</h1>');
+      const closed = await context.newPage();
+      extraPages.push(open, closed);
+      await closed.close();
+    });
+
+    test.afterAll(
+      'should attach a screenshot and HTML of open tracked pages',
+      async () => {
+        expect(captures(previous!)).toEqual([
+          'pageman-page-1.png',
+          'pageman-page-1.html',
+        ]);
+
+        const html = previous!.attachments.find(
+          a => a.name === 'pageman-page-1.html'
+        );
+        expect(html?.contentType).toBe('text/html');
+        expect(html?.body?.toString()).toContain('<h1>evidence</h1>');
+      }
+    );
+  });
+
+  test.describe("screenshot: 'only-on-failure'", () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: { screenshot: 'only-on-failure' } as PageManOptions,
+    });
+
+    let passed: TestInfo | undefined;
+    let expectedFailure: TestInfo | undefined;
+
+    test('passes with a tracked page', async ({ browser, extraPages }) => {
+      passed = test.info();
+
+      const context = await browser.newContext();
+      extraPages.push(await context.newPage());
+    });
+
+    test('fails as expected with a tracked page', async ({
+      browser,
+      extraPages,
+    }) => {
+      test.fail();
+      expectedFailure = test.info();
+
+      const context = await browser.newContext();
+      extraPages.push(await context.newPage());
+
+      expect(1).toBe(2);
+    });
+
+    test.afterAll(
+      'should not capture passing tests or expected failures',
+      async () => {
+        // Same as Playwright's screenshot option: test.fail() is not a failure
+        expect(captures(passed!)).toEqual([]);
+        expect(captures(expectedFailure!)).toEqual([]);
+      }
+    );
+  });
+
+  test.describe("screenshot: 'off'", () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: { screenshot: 'off' } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+
+    test('fails with a tracked page', async ({ browser, extraPages }) => {
+      test.fail();
+      previous = test.info();
+
+      const context = await browser.newContext();
+      extraPages.push(await context.newPage());
+
+      expect(1).toBe(2);
+    });
+
+    test.afterAll('should not capture anything', async () => {
+      expect(captures(previous!)).toEqual([]);
+    });
+  });
+
+  test.describe('Default context pages', () => {
+    test.describe.configure({ mode: 'default' });
+    test.use({
+      pageManOptions: {
+        screenshot: 'on',
+        autoTrackDefaultContext: true,
+      } as PageManOptions,
+    });
+
+    let previous: TestInfo | undefined;
+
+    test('opens a page in the default context', async ({ context }) => {
+      previous = test.info();
+
+      await context.newPage();
+    });
+
+    test.afterAll(
+      'should capture it before Playwright closes the context',
+      async () => {
+        expect(captures(previous!)).toEqual(['pageman-page-1.png']);
+      }
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import { test, expect } from '../src/index';
+import type { PageManOptions } from '../src/index';
+
+test.describe('PageMan - Strict Cleanup', () => {
+  test.describe('strictCleanup: true', () => {
+    test.use({
+      pageManOptions: {
+        strictCleanup: true,
+        closeTimeout: 200,
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    test('should throw one aggregated error after closing every page', async ({
+      browser,
+      extraPages: fixture,
+    }) => {
+      const context = await browser.newContext();
+      const failing1 = await context.newPage();
+      const failing2 = await context.newPage();
+      const healthy = await context.newPage();
+
+      const originalClose1 = failing1.close.bind(failing1);
+      const originalClose2 = failing2.close.bind(failing2);
+      failing1.close = async () => {
+        throw new Error('Simulated page close error');
+      };
+      failing2.close = async () => {
+        throw 'String error instead of Error object';
+      };
+
+      fixture.push(failing1, healthy, failing2);
+
+      try {
+        const error = await fixture.closeAll().then(
+          () => null,
+          (e: unknown) => e
+        );
+
+        expect(error).toBeInstanceOf(AggregateError);
+        expect((error as AggregateError).errors).toHaveLength(2);
+        expect((error as AggregateError).message).toContain(
+          'Failed to close 2 page(s)'
+        );
+        expect((error as AggregateError).message).toContain(
+          'Simulated page close error'
+        );
+        expect((error as AggregateError).message).toContain(
+          'String error instead of Error object'
+        );
+
+        // Cleanup is still best-effort
+        expect(healthy.isClosed()).toBe(true);
+        expect(fixture.length).toBe(0);
+      } finally {
+        failing1.close = originalClose1;
+        failing2.close = originalClose2;
+        await context.close();
+      }
+    });
+
+    test('should report page close timeouts', async ({
+      browser,
+      extraPages: fixture,
+    }) => {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+
+      const originalClose = page.close.bind(page);
+      page.close = async () => {
+        await new Promise(resolve => setTimeout(resolve, 10000));
+      };
+
+      fixture.push(page);
+
+      try {
+        await expect(fixture.closeAll()).rejects.toThrow('Page close timeout');
+      } finally {
+        page.close = originalClose;
+        await context.close();
+      }
+    });
+
+    test('should throw one aggregated error for contexts', async ({
+      browser,
+      extraContexts: fixture,
+    }) => {
+      const failing = await browser.newContext();
+      const healthy = await browser.newContext();
+
+      const originalClose = failing.close.bind(failing);
+      failing.close = async () => {
+        throw new Error('Simulated context close error');
+      };
+
+      fixture.push(failing, healthy);
+
+      try {
+        await expect(fixture.closeAll()).rejects.toThrow(
+          /Failed to close 1 context\(s\):[\s\S]*Simulated context close error/
+        );
+        expect(browser.contexts()).not.toContain(healthy);
+        expect(fixture.length).toBe(0);
+      } finally {
+        failing.close = originalClose;
+        await failing.close();
+      }
+    });
+
+    test('should resolve when every close succeeds', async ({
+      browser,
+      extraPages,
+      extraContexts,
+    }) => {
+      const context = await browser.newContext();
+      extraPages.push(await context.newPage());
+      extraContexts.push(context);
+
+      await expect(extraPages.closeAll()).resolves.toBeUndefined();
+      await expect(extraContexts.closeAll()).resolves.toBeUndefined();
+    });
+  });
+
+  test.describe('strictCleanup: true during teardown', () => {
+    test.use({
+      pageManOptions: {
+        strictCleanup: true,
+        leakPolicy: 'close',
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    test('should fail the test when a tracked page fails to close', async ({
+      browser,
+      extraPages,
+    }) => {
+      test.fail();
+
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      page.close = async () => {
+        throw new Error('Simulated page close error');
+      };
+      extraPages.push(page);
+
+      // The leaked context (and its page) is closed by leakPolicy: 'close'
+    });
+  });
+
+  test.describe('strictCleanup: false', () => {
+    test.use({
+      pageManOptions: { strictCleanup: false } as PageManOptions,
+    });
+
+    test('should swallow close errors', async ({
+      browser,
+      extraPages: fixture,
+    }) => {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+
+      const originalClose = page.close.bind(page);
+      page.close = async () => {
+        throw new Error('Simulated page close error');
+      };
+      fixture.push(page);
+
+      try {
+        await expect(fixture.closeAll()).resolves.toBeUndefined();
+      } finally {
+        page.close = originalClose;
+        await context.close();
+      }
+    });
+  });
+});
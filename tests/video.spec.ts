@@ -0,0 +1,86 @@
+import fs from 'node:fs';
+import { test, expect } from '../src/index';
+import type { BrowserContext, PageManOptions, TestInfo } from '../src/index';
+
+function videos(testInfo: TestInfo): string[] {
+  return testInfo.attachments
+    .filter(a => a.name === 'video')
+    .map(a => a.path ?? '');
+}
+
+// video is a worker option, it can only be set at the top level
+test.use({ video: 'on' });
+
+test.describe('PageMan - Video', () => {
+  test.describe.configure({ mode: 'default' });
+
+  let previous: TestInfo | undefined;
+
+  test('opens an auto-tracked page', async ({ browser }) => {
+    previous = test.info();
+
+    const page = await browser.newPage();
+    await page.setContent('<h1>recorded</h1>');
+  });
+
+  test.afterAll(
+    'should attach the video of the auto-tracked page',
+    async () => {
+      const attached = videos(previous!);
+      expect(attached).toHaveLength(1);
+      expect(attached[0]).toContain('pageman-video-1.webm');
+      expect(fs.existsSync(previous!.outputPath('.pageman-videos'))).toBe(
+        false
+      );
+    }
+  );
+});
+
+test.describe('PageMan - Video - Helpers', () => {
+  test.describe.configure({ mode: 'default' });
+  test.use({ pageManOptions: { autoTrack: false } as PageManOptions });
+
+  let previous: TestInfo | undefined;
+
+  test('creates a context and opens a page', async ({
+    extraContexts,
+    extraPages,
+  }) => {
+    previous = test.info();
+
+    const context = await extraContexts.create();
+    const page = await context.newPage();
+    await page.setContent('<h1>created</h1>');
+    const opened = await extraPages.open();
+    await opened.setContent('<h1>opened</h1>');
+  });
+
+  test.afterAll(
+    'should attach the videos of the created contexts',
+    async () => {
+      expect(videos(previous!)).toHaveLength(2);
+    }
+  );
+});
+
+test.describe('PageMan - Video - Worker Contexts', () => {
+  test.describe.configure({ mode: 'default' });
+  test.use({ pageManOptions: { autoTrackContexts: true } as PageManOptions });
+
+  let previous: TestInfo | undefined;
+  let shared: BrowserContext | undefined;
+
+  test('creates a worker-scoped context', async ({ workerExtraContexts }) => {
+    previous = test.info();
+    shared = await workerExtraContexts.create();
+  });
+
+  test.afterAll('should not record it for the test', async () => {
+    expect(videos(previous!)).toEqual([]);
+    expect(fs.existsSync(previous!.outputPath('.pageman-videos'))).toBe(false);
+
+    const page = await shared!.newPage();
+    expect(page.video()).toBeNull();
+    await page.close();
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  test,
+  expect,
+  getWorkerExtraContexts,
+  workerExtraContexts,
+  workerExtraPages,
+} from '../src/index';
+import type { BrowserContext, PageManOptions } from '../src/index';
+
+test.describe('PageMan - Worker-Scoped Trackers', () => {
+  test.describe('Shared context', () => {
+    test.describe.configure({ mode: 'default' });
+
+    let shared: BrowserContext;
+
+    test.beforeAll(async ({ browser }) => {
+      shared = await browser.newContext();
+      // Global accessors work in beforeAll, outside of any test
+      workerExtraContexts.push(shared);
+    });
+
+    test('should keep the context tracked by the worker', async ({
+      extraContexts,
+    }) => {
+      expect(workerExtraContexts.contexts).toContain(shared);
+      expect(extraContexts.contexts).not.toContain(shared);
+      await shared.newPage();
+    });
+
+    test('should not close it after the previous test', async ({
+      workerExtraContexts: fixture,
+    }) => {
+      expect(fixture).toBe(getWorkerExtraContexts());
+      expect(fixture.contexts).toContain(shared);
+      expect(shared.pages()).toHaveLength(1);
+    });
+  });
+
+  test.describe('Same API as the test-scoped trackers', () => {
+    test.use({
+      pageManOptions: { autoTrack: false } as PageManOptions,
+    });
+
+    test('should push, remove and close pages', async ({
+      browser,
+      workerExtraPages: fixture,
+    }) => {
+      const context = await browser.newContext();
+      const kept = await context.newPage();
+      const removed = await context.newPage();
+
+      fixture.push(kept, removed);
+      expect(workerExtraPages.length).toBe(2);
+
+      expect(fixture.remove(removed)).toBe(true);
+      await fixture.closeAll();
+
+      expect(kept.isClosed()).toBe(true);
+      expect(removed.isClosed()).toBe(false);
+      expect(fixture.length).toBe(0);
+
+      await context.close();
+    });
+  });
+
+  test.describe('Leak detection', () => {
+    test.use({
+      pageManOptions: {
+        leakPolicy: 'fail',
+        autoTrack: false,
+      } as PageManOptions,
+    });
+
+    test('should not report worker-tracked contexts as leaks', async ({
+      browser,
+    }) => {
+      workerExtraContexts.push(await browser.newContext());
+    });
+  });
+});